@@ -1,6 +1,6 @@
 import { AbortOptions, MaybeAsyncIterableIterator } from '@mithic/commons';
 import { MaybeAsyncMap, MaybeAsyncMapBatch, MaybeAsyncReadonlyMap, MaybeAsyncReadonlyMapBatch } from './map.ts';
-import { RangeQueryable, RangeQueryOptions } from './range.ts';
+import { LimitOptions, RangeQueryable, RangeQueryOptions } from './range.ts';
 
 /** Tagged entity-attribute-value triplestore. */
 export interface TripleStore<Id, V>
@@ -11,30 +11,56 @@ export interface ReadonlyTripleStore<Id, V>
   extends MaybeAsyncReadonlyMap<EntityAttrKey<Id>, V>, MaybeAsyncReadonlyMapBatch<EntityAttrKey<Id>, V>,
   RangeQueryable<EntityAttrSearchKey<Id>, V> {
 
-  keys(options?: RangeQueryOptions<EntityAttrSearchKey<Id>>): MaybeAsyncIterableIterator<EntityAttrKey<Id>>;
+  keys(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): MaybeAsyncIterableIterator<EntityAttrKey<Id>>;
 
-  values(options?: RangeQueryOptions<EntityAttrSearchKey<Id>>): MaybeAsyncIterableIterator<V>;
+  values(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): MaybeAsyncIterableIterator<V>;
 
-  entries(options?: RangeQueryOptions<EntityAttrSearchKey<Id>>): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
+  entries(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
 
   /** Iterates keys by given attribute key range. */
-  keysByAttr(options?: RangeQueryOptions<AttrSearchKey>): MaybeAsyncIterableIterator<EntityAttrKey<Id>>;
+  keysByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): MaybeAsyncIterableIterator<EntityAttrKey<Id>>;
 
   /** Iterates values by given attribute key range. */
-  valuesByAttr(options?: RangeQueryOptions<AttrSearchKey>): MaybeAsyncIterableIterator<V>;
+  valuesByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): MaybeAsyncIterableIterator<V>;
 
   /** Iterates entries by given attribute key range. */
-  entriesByAttr(options?: RangeQueryOptions<AttrSearchKey>): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
+  entriesByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
 
   /** Finds matching entries for given list of entity-attribute search keys. */
   findMany(
     keys: Iterable<EntityAttrSearchKey<Id>>, options?: AbortOptions
   ): MaybeAsyncIterableIterator<MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>>;
 
+  /** Iterates entries for given list of range queries, which may be batched into a single request. */
+  entriesMany(
+    queries: Iterable<TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>>, options?: AbortOptions
+  ): MaybeAsyncIterableIterator<MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>>;
+
   /** Finds matching entries for given list of attribute-value search keys. */
   findManyByAttr(
     keys: Iterable<AttrSearchKey>, options?: AbortOptions
   ): MaybeAsyncIterableIterator<MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>>;
+
+  /**
+   * Searches full-text indexed attributes by given query, if supported.
+   * Returns entity Ids with scores in descending order of relevance.
+   */
+  search?(query: string, options?: TextSearchOptions): MaybeAsyncIterableIterator<[Id, number]>;
+}
+
+/** Range query options for a {@link ReadonlyTripleStore}. */
+export interface TripleRangeQueryOptions<K, Id> extends RangeQueryOptions<K> {
+  /**
+   * Cursor to resume the query from, which is the last key returned by the previous page.
+   * Results start after the cursor in iteration order.
+   */
+  readonly after?: EntityAttrKey<Id>;
+}
+
+/** Full-text search options for a {@link ReadonlyTripleStore}. */
+export interface TextSearchOptions extends AbortOptions, LimitOptions {
+  /** Attribute to search. Defaults to all indexed attributes. */
+  readonly attr?: string;
 }
 
 /** {@link TripleStore} tagged entity-attribute primary key. */
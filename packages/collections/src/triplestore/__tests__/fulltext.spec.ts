@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { FullTextIndex, tokenizeText } from '../fulltext.ts';
+import { collect, createCID } from '../../__tests__/utils.ts';
+
+const ID0 = createCID(new Uint8Array(1));
+const ID1 = createCID(new Uint8Array(2));
+const TX0 = createCID(new Uint8Array(3));
+const TX1 = createCID(new Uint8Array(4));
+const TITLE = 'title';
+const BODY = 'body';
+
+describe(tokenizeText.name, () => {
+  it('should split text into lowercase tokens without diacritics', () => {
+    expect(tokenizeText('Crème Brûlée, 2 ways!')).toEqual(['creme', 'brulee', '2', 'ways']);
+  });
+
+  it('should return no tokens for text without words', () => {
+    expect(tokenizeText(' -- ')).toEqual([]);
+  });
+});
+
+describe(FullTextIndex.name, () => {
+  it('should return index entries for configured string attributes only', () => {
+    const index = new FullTextIndex(new Set([TITLE]));
+    expect([...index.toIndexEntries([ID0, TITLE, 'a', TX0], 'Hello hello world', false)]).toEqual([
+      [['hello', TITLE, ID0, 'a', TX0], 2],
+      [['world', TITLE, ID0, 'a', TX0], 1],
+    ]);
+    expect([...index.toIndexEntries([ID0, TITLE, 'a', TX0], 'world', true)]).toEqual([[['world', TITLE, ID0, 'a', TX0]]]);
+    expect([...index.toIndexEntries([ID0, BODY, 'a', TX0], 'hello', false)]).toEqual([]);
+    expect([...index.toIndexEntries([ID0, TITLE, 'a', TX0], 123, false)]).toEqual([]);
+  });
+
+  it('should rank entities by matching tokens', async () => {
+    const index = new FullTextIndex(new Set([TITLE, BODY]));
+    await collect(index.updateMany([
+      ...index.toIndexEntries([ID0, TITLE, 'a', TX0], 'apple pie', false),
+      ...index.toIndexEntries([ID1, TITLE, 'b', TX1], 'apple', false),
+      ...index.toIndexEntries([ID1, BODY, 'c', TX1], 'banana apple apple', false),
+    ]));
+
+    const results = await collect(index.search('Pie apple'));
+    expect(results.map(([id]) => id)).toEqual([ID0, ID1]);
+    expect(results[0][1]).toBeGreaterThan(results[1][1]);
+    expect((await collect(index.search('apple', { attr: BODY }))).map(([id]) => id)).toEqual([ID1]);
+    expect((await collect(index.search('apple', { limit: 1 })))).toHaveLength(1);
+    expect(await collect(index.search('cherry'))).toEqual([]);
+  });
+});
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it } from '@jest/globals';
 import { CID } from 'multiformats';
 import { rangeQueryable } from '../../range.ts';
 import { EntityAttrKey } from '../../triplestore.ts';
+import { FullTextIndex } from '../fulltext.ts';
 import { MapTripleStore } from '../mapstore.ts';
 import { collect, createCID } from '../../__tests__/utils.ts';
 
@@ -58,6 +59,15 @@ describe(MapTripleStore.name, () => {
           [[ROOT, FIELD0, VALUE0, ID0], VALUE0],
         ]);
       });
+
+      it('should resume after cursor', async () => {
+        expect(await collect(store.entries({ lower: [ROOT], after: [ROOT, FIELD0, VALUE0, ID0], limit: 2 }))).toEqual([
+          [[ROOT, FIELD1, VALUE1, ID1], VALUE1],
+          [[ROOT, FIELD2, VALUE2, ID2], VALUE2],
+        ]);
+        expect(await collect(store.keys({ upper: [ROOT, FIELD2], upperOpen: false, after: [ROOT, FIELD2, VALUE2, ID2], reverse: true })))
+          .toEqual([[ROOT, FIELD1, VALUE1, ID1], [ROOT, FIELD0, VALUE0, ID0]]);
+      });
     });
 
     describe('keys', () => {
@@ -89,6 +99,21 @@ describe(MapTripleStore.name, () => {
         const keys = await collect(store.keysByAttr({ lower: [FIELD2] }));
         expect(keys).toEqual([[ROOT, FIELD2, VALUE2, ID2], [ROOT2, FIELD2, VALUE2, ID3]]);
       });
+
+      it('should resume after cursor', async () => {
+        expect(await collect(store.keysByAttr({ lower: [FIELD2], after: [ROOT, FIELD2, VALUE2, ID2] })))
+          .toEqual([[ROOT2, FIELD2, VALUE2, ID3]]);
+        expect(await collect(store.keysByAttr({ upper: [FIELD2], upperOpen: false, after: [ROOT2, FIELD2, VALUE2, ID3], reverse: true })))
+          .toEqual([[ROOT, FIELD2, VALUE2, ID2], [ROOT, FIELD1, VALUE1, ID1], [ROOT, FIELD0, VALUE0, ID0]]);
+      });
+
+      it('should index the same tag and transaction of multiple entities', async () => {
+        await updateEntries([[[ROOT2, FIELD2, VALUE2, ID2], VALUE2]]);
+        expect(await collect(store.keysByAttr({ lower: [FIELD2], upper: [FIELD2, VALUE2], upperOpen: false })))
+          .toEqual([[ROOT, FIELD2, VALUE2, ID2], [ROOT2, FIELD2, VALUE2, ID2], [ROOT2, FIELD2, VALUE2, ID3]]);
+        expect(await collect(store.keysByAttr({ lower: [FIELD2], after: [ROOT, FIELD2, VALUE2, ID2] })))
+          .toEqual([[ROOT2, FIELD2, VALUE2, ID2], [ROOT2, FIELD2, VALUE2, ID3]]);
+      });
     });
 
     describe('valuesByAttr', () => {
@@ -117,6 +142,24 @@ describe(MapTripleStore.name, () => {
       });
     });
 
+    describe('entriesMany', () => {
+      it('should return entries of each range query', async () => {
+        const results = [];
+        for await (const entries of store.entriesMany([
+          { lower: [ROOT], upper: [ROOT], upperOpen: false, limit: 2 },
+          { lower: [ROOT, FIELD2], upper: [ROOT, FIELD2], upperOpen: false, reverse: true },
+          { lower: [ROOT, FIELD1], upper: [ROOT, FIELD1], upperOpen: false, after: [ROOT, FIELD1, VALUE1, ID1] },
+        ])) {
+          results.push(await collect(entries));
+        }
+        expect(results).toEqual([
+          [[[ROOT, FIELD0, VALUE0, ID0], VALUE0], [[ROOT, FIELD1, VALUE1, ID1], VALUE1]],
+          [[[ROOT, FIELD2, VALUE2, ID2], VALUE2]],
+          [],
+        ]);
+      });
+    });
+
     describe('findManyByAttr', () => {
       beforeEach(async () => {
         await updateEntries([[[ROOT, FIELD2, VALUE0, ID1], VALUE0]]);
@@ -143,6 +186,21 @@ describe(MapTripleStore.name, () => {
     });
   });
 
+  describe('search', () => {
+    it('should search full-text index maintained with updates', async () => {
+      store = new MapTripleStore(void 0, void 0, void 0, new FullTextIndex(new Set([FIELD0])));
+      await updateEntries([[[ROOT, FIELD0, VALUE0, ID0], 'Hello world'], [[ROOT2, FIELD0, VALUE1, ID1], 'hello']]);
+      expect((await collect(store.search('world hello'))).map(([id]) => id)).toEqual([ROOT, ROOT2]);
+
+      await updateEntries([[[ROOT, FIELD0, VALUE0, ID0]]]);
+      expect((await collect(store.search('world hello'))).map(([id]) => id)).toEqual([ROOT2]);
+    });
+
+    it('should throw if full-text index is not configured', () => {
+      expect(() => store.search('hello')).toThrow(new TypeError('full-text index not configured'));
+    });
+  });
+
   describe('getMany', () => {
     it('should return values for existing keys and undefined for non-existing keys', async () => {
       expectEntries([
@@ -191,6 +249,11 @@ describe(MapTripleStore.name, () => {
       await store.delete([ROOT, FIELD0, VALUE0, ID0]);
       expectEntries([[[ROOT, FIELD0, VALUE0, ID0], undefined]]);
     });
+
+    it('should delete entry from attribute index', async () => {
+      await store.delete([ROOT, FIELD0, VALUE0, ID0]);
+      expect(await collect(store.keysByAttr({ lower: [FIELD0], upper: [FIELD0], upperOpen: false }))).toEqual([]);
+    });
   });
 
   describe('updateMany', () => {
@@ -1,15 +1,17 @@
 import { MaybeAsyncIterableIterator, AbortOptions } from '@mithic/commons';
-import { AttrSearchKey, EntityAttrKey, EntityAttrSearchKey, TripleStore } from '../triplestore.ts';
-import { RangeQueryOptions, rangeQueryable } from '../range.ts';
+import {
+  AttrSearchKey, EntityAttrKey, EntityAttrSearchKey, TripleRangeQueryOptions, TripleStore
+} from '../triplestore.ts';
+import { rangeQueryable } from '../range.ts';
 
 /** {@link TripleStore} base class. */
 export abstract class BaseTripleStore<Id, V> implements TripleStore<Id, V>, AsyncIterable<[EntityAttrKey<Id>, V]> {
   public abstract entries(
-    options?: RangeQueryOptions<EntityAttrSearchKey<Id>>
+    options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>
   ): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
 
   public abstract entriesByAttr(
-    options?: RangeQueryOptions<AttrSearchKey>
+    options?: TripleRangeQueryOptions<AttrSearchKey, Id>
   ): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>;
 
   public abstract findMany(
@@ -28,22 +30,30 @@ export abstract class BaseTripleStore<Id, V> implements TripleStore<Id, V>, Asyn
     entries: Iterable<readonly [key: EntityAttrKey<Id>, value?: V]>, options?: AbortOptions
   ): MaybeAsyncIterableIterator<Error | undefined>;
 
-  public async * keys(options?: RangeQueryOptions<EntityAttrSearchKey<Id>>): AsyncIterableIterator<EntityAttrKey<Id>> {
+  public async * keys(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): AsyncIterableIterator<EntityAttrKey<Id>> {
     for await (const [key] of this.entries(options)) { yield key; }
   }
 
-  public async * values(options?: RangeQueryOptions<EntityAttrSearchKey<Id>>): AsyncIterableIterator<V> {
+  public async * values(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): AsyncIterableIterator<V> {
     for await (const [, value] of this.entries(options)) { yield value; }
   }
 
-  public async * keysByAttr(options?: RangeQueryOptions<AttrSearchKey>): AsyncIterableIterator<EntityAttrKey<Id>> {
+  public async * keysByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): AsyncIterableIterator<EntityAttrKey<Id>> {
     for await (const [key] of this.entriesByAttr(options)) { yield key; }
   }
 
-  public async * valuesByAttr(options?: RangeQueryOptions<AttrSearchKey>): AsyncIterableIterator<V> {
+  public async * valuesByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): AsyncIterableIterator<V> {
     for await (const [, value] of this.entriesByAttr(options)) { yield value; }
   }
 
+  public * entriesMany(
+    queries: Iterable<TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>>, options?: AbortOptions
+  ): IterableIterator<MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>> {
+    for (const query of queries) {
+      yield this.entries({ ...query, signal: options?.signal ?? query.signal });
+    }
+  }
+
   public async get(key: EntityAttrKey<Id>, options?: AbortOptions): Promise<V | undefined> {
     for await (const value of this.getMany([key], options)) { return value; }
   }
@@ -0,0 +1,83 @@
+import { AbortOptions, MaybeAsyncIterableIterator } from '@mithic/commons';
+import { BTreeMap } from '../impl/index.ts';
+import { MaybeAsyncMapBatch } from '../map.ts';
+import { RangeQueryable } from '../range.ts';
+import { EntityAttrKey, TextSearchOptions } from '../triplestore.ts';
+import { compareMultiKeys } from '../utils/index.ts';
+
+const TERMINAL = '\udbff\udfff';
+
+/** Full-text inverted index of string attribute values in a {@link TripleStore}. */
+export class FullTextIndex<Id> {
+  public constructor(
+    /** Attributes to index. */
+    protected readonly attrs: ReadonlySet<string>,
+    /** Map of token entries to term frequencies. */
+    protected readonly map:
+      MaybeAsyncMapBatch<TextIndexKey<Id>, number> & RangeQueryable<TextIndexKey<Id>, number>
+      = new BTreeMap(5, compareMultiKeys),
+    /** Function for splitting text into normalized tokens. */
+    protected readonly tokenize: (text: string) => string[] = tokenizeText,
+  ) { }
+
+  /** Returns the index entries to add or delete for given triple and value. */
+  public * toIndexEntries(
+    [entityId, attr, tag, txId]: EntityAttrKey<Id>, value: unknown, deleted: boolean
+  ): IterableIterator<[TextIndexKey<Id>, number?]> {
+    if (!this.attrs.has(attr) || typeof value !== 'string') { return; }
+
+    const frequencies = new Map<string, number>();
+    for (const token of this.tokenize(value)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    for (const [token, frequency] of frequencies) {
+      yield deleted ?
+        [[token, attr, entityId, tag, txId]] :
+        [[token, attr, entityId, tag, txId], frequency];
+    }
+  }
+
+  /** Adds or deletes given index entries. */
+  public updateMany(
+    entries: Iterable<readonly [key: TextIndexKey<Id>, value?: number]>, options?: AbortOptions
+  ): MaybeAsyncIterableIterator<Error | undefined> {
+    return this.map.updateMany(entries, options);
+  }
+
+  /**
+   * Searches entities with indexed values matching any token of given query.
+   * Returns entity Ids with scores in descending order of relevance,
+   * where a matching token scores by its log-damped frequency, weighted more for rarer tokens.
+   */
+  public async * search(query: string, options?: TextSearchOptions): AsyncIterableIterator<[Id, number]> {
+    const scores = new Map<string, [Id, number]>();
+    for (const token of new Set(this.tokenize(query))) {
+      const frequencies = new Map<string, [Id, number]>();
+      for await (const [[, , id], frequency] of this.map.entries({
+        signal: options?.signal,
+        lower: options?.attr !== void 0 ? [token, options.attr] : [token],
+        upper: options?.attr !== void 0 ? [token, `${options.attr}\0`] : [token, TERMINAL],
+      })) {
+        const entityId = id as Id;
+        const idStr = `${entityId}`;
+        frequencies.set(idStr, [entityId, (frequencies.get(idStr)?.[1] ?? 0) + frequency]);
+      }
+      for (const [idStr, [entityId, frequency]] of frequencies) {
+        const score = (1 + Math.log(frequency)) / frequencies.size;
+        scores.set(idStr, [entityId, (scores.get(idStr)?.[1] ?? 0) + score]);
+      }
+    }
+
+    const results = [...scores.values()].sort(([idA, scoreA], [idB, scoreB]) =>
+      (scoreB - scoreA) || compareMultiKeys(idA, idB));
+    yield* results.slice(0, options?.limit ?? Infinity);
+  }
+}
+
+/** Full-text index key. */
+export type TextIndexKey<Id> = readonly [token: string, attr?: string, entityId?: Id, tag?: string, txId?: Id];
+
+/** Splits given text into lowercase word tokens, without diacritics. */
+export function tokenizeText(text: string): string[] {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
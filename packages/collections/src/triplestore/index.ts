@@ -1,2 +1,3 @@
 export * from './base.ts';
 export * from './mapstore.ts';
+export * from './fulltext.ts';
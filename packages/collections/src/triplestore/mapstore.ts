@@ -1,10 +1,13 @@
 import { AbortOptions, CodedError, MaybeAsyncIterableIterator, OperationError } from '@mithic/commons';
 import { BTreeMap } from '../impl/index.ts';
 import { MaybeAsyncMapBatch } from '../map.ts';
-import { RangeQueryOptions, RangeQueryable } from '../range.ts';
-import { AttrSearchKey, EntityAttrKey, EntityAttrSearchKey, TripleStore } from '../triplestore.ts';
+import { RangeQueryable } from '../range.ts';
+import {
+  AttrSearchKey, EntityAttrKey, EntityAttrSearchKey, TextSearchOptions, TripleRangeQueryOptions, TripleStore
+} from '../triplestore.ts';
 import { compareMultiKeys } from '../utils/index.ts';
 import { BaseTripleStore } from './base.ts';
+import { FullTextIndex, TextIndexKey } from './fulltext.ts';
 
 const TERMINAL = '\udbff\udfff';
 
@@ -23,12 +26,14 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
       = new BTreeMap(5, compareMultiKeys),
     /** Max size of a request batch. */
     protected readonly batchSize = 50,
+    /** Full-text index of string attribute values, if any. */
+    protected readonly textIndex?: FullTextIndex<Id>,
   ) {
     super();
   }
 
   public override async * entries(
-    options?: RangeQueryOptions<EntityAttrSearchKey<Id>>
+    options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>
   ): AsyncIterableIterator<[EntityAttrKey<Id>, V]> {
     let lower: EntityAttrKey<Id> | undefined, upper: EntityAttrKey<Id> | undefined;
     if (options?.lower) {
@@ -45,15 +50,20 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
       ];
     }
 
+    let lowerOpen = options?.lowerOpen;
+    if (options?.after) {
+      [lower, lowerOpen, upper] = resumeAfter(options.after, lower, lowerOpen, upper, options.reverse);
+    }
+
     for await (const [key, value] of this.data.entries({
-      ...options, lower, upper, upperOpen: true,
+      ...options, lower, lowerOpen, upper, upperOpen: true,
     })) {
       yield [key, value];
     }
   }
 
   public override async * keysByAttr(
-    options?: RangeQueryOptions<AttrSearchKey>
+    options?: TripleRangeQueryOptions<AttrSearchKey, Id>
   ): AsyncIterableIterator<EntityAttrKey<Id>> {
     let upper: AttrIndexKey<Id> | undefined;
     if (options?.upper) {
@@ -66,15 +76,22 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
       ];
     }
 
+    let lower: AttrIndexKey<Id> | undefined = options?.lower;
+    let lowerOpen = options?.lowerOpen;
+    if (options?.after) {
+      const [entityId, attr, tag, txId] = options.after;
+      [lower, lowerOpen, upper] = resumeAfter([attr, tag, txId, entityId], lower, lowerOpen, upper, options.reverse);
+    }
+
     for await (const [[attr, tag, txId], entityId] of this.index.entries({
-      ...options, lower: options?.lower, upper, upperOpen: true,
+      ...options, lower, lowerOpen, upper, upperOpen: true,
     })) {
       yield [entityId, attr, tag ?? '', txId];
     }
   }
 
   public override async * entriesByAttr(
-    options?: RangeQueryOptions<AttrSearchKey>
+    options?: TripleRangeQueryOptions<AttrSearchKey, Id>
   ): AsyncIterableIterator<[EntityAttrKey<Id>, V]> {
     let keys = [];
     for await (const key of this.keysByAttr(options)) {
@@ -116,16 +133,17 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
   ): AsyncIterableIterator<CodedError<EntityAttrKey<Id>> | undefined> {
     const entryArray = [...entries];
     const errors = new Array<Error | undefined>(entryArray.length);
+    const deletedValues = new Array<V | undefined>(entryArray.length);
 
     // TODO: optimize this
 
     // update indices
     {
-      const indexArray = [] as [AttrIndexKey<Id>, Id | undefined][];
+      const indexArray = [] as [AttrIndexKey<Id>, Id?][];
       for (let i = 0; i < entryArray.length; ++i) {
         const [[entityId, attr, tag, txId], value] = entryArray[i];
         if (value !== void 0) {
-          indexArray[i] = [[attr, tag, txId], entityId];
+          indexArray[i] = [[attr, tag, txId, entityId], entityId];
         }
       }
 
@@ -136,7 +154,8 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
           for (; i < entryArray.length && entryArray[i][1] !== void 0; ++i);
           if (value !== void 0) {
             const [[entityId, attr, tag, txId]] = entryArray[i];
-            indexArray[i] = [[attr, tag, txId], entityId];
+            indexArray[i] = [[attr, tag, txId, entityId]]; // delete index entry
+            deletedValues[i] = value;
           }
           ++i;
         }
@@ -153,6 +172,28 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
       }
     }
 
+    // update full-text index
+    if (this.textIndex) {
+      const textEntries = [] as [TextIndexKey<Id>, number?][];
+      const owners = [] as number[];
+      for (let i = 0; i < entryArray.length; ++i) {
+        const [key, value] = entryArray[i];
+        if (errors[i]) { continue; }
+        for (const entry of this.textIndex.toIndexEntries(key, value ?? deletedValues[i], value === void 0)) {
+          textEntries.push(entry);
+          owners.push(i);
+        }
+      }
+
+      if (textEntries.length) {
+        let i = 0;
+        for await (const error of this.textIndex.updateMany(textEntries, options)) {
+          if (error) { errors[owners[i]] ??= error; }
+          ++i;
+        }
+      }
+    }
+
     // update data entries
     {
       const entries = entryArray.filter((_, index) => errors[index] === void 0);
@@ -175,6 +216,13 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
     }
   }
 
+  public search(query: string, options?: TextSearchOptions): AsyncIterableIterator<[Id, number]> {
+    if (!this.textIndex) {
+      throw new TypeError('full-text index not configured');
+    }
+    return this.textIndex.search(query, options);
+  }
+
   public override get [Symbol.toStringTag](): string {
     return MapTripleStore.name;
   }
@@ -190,5 +238,18 @@ export class MapTripleStore<Id, V> extends BaseTripleStore<Id, V>
   }
 }
 
-/** Tagged attribute index key. */
-export type AttrIndexKey<Id> = readonly [attr: string, tag?: string, txId?: Id];
+/**
+ * Tagged attribute index key. The entity Id is part of the key,
+ * as a transaction can write the same attribute and tag to multiple entities.
+ */
+export type AttrIndexKey<Id> = readonly [attr: string, tag?: string, txId?: Id, id?: Id];
+
+/** Narrows given range to start after given cursor key in iteration order. Upper bound is assumed to be open. */
+function resumeAfter<K>(
+  after: K, lower: K | undefined, lowerOpen: boolean | undefined, upper: K | undefined, reverse?: boolean
+): [lower: K | undefined, lowerOpen: boolean | undefined, upper: K | undefined] {
+  if (reverse) {
+    return [lower, lowerOpen, upper === void 0 || compareMultiKeys(after, upper) < 0 ? after : upper];
+  }
+  return lower === void 0 || compareMultiKeys(after, lower) >= 0 ? [after, true, upper] : [lower, lowerOpen, upper];
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { compactEntityStore } from '../compaction.ts';
+import { EntityCommand, EntityEvent, OREntityCommandHandler, OREntityProjection } from '../mutation/index.ts';
+import { DefaultEntityStore, EntityStore } from '../store.ts';
+import { ReadonlyOREntityCollection } from '../view/index.ts';
+import { MockId, getMockEventKey } from './mocks.ts';
+import { collect, txId, updateCommand } from './utils.ts';
+
+type V = string | number;
+
+const TYPE = 'compaction';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD1 = 'field1';
+const FIELD2 = 'field2';
+
+describe(compactEntityStore.name, () => {
+  let history: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let events: Map<string, EntityEvent<MockId, V>>;
+  const command = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica0');
+  const projection = new OREntityProjection<MockId, V>(getMockEventKey);
+  const eventStore = {
+    getMany: (keys: Iterable<MockId>) => [...keys].map((key) => events.get(`${key}`)).values(),
+  };
+
+  beforeEach(async () => {
+    history = new MapTripleStore();
+    const store = new MapTripleStore<MockId, V>();
+    state = new DefaultEntityStore(() => store, void 0, () => history);
+    events = new Map();
+
+    await applyCommands(
+      updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' }, [FIELD2]: { add: ['x'] } }),
+      updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } }),
+      updateCommand('7', ROOT, TYPE, { [FIELD2]: { del: ['x'] } }),
+    );
+  });
+
+  it('should prune history of triples deleted in stable cut', async () => {
+    expect(await compactEntityStore(state, eventStore, [txId('5')])).toEqual({ tx: 0, history: 1 });
+    expect(await collect(history)).toEqual([[[ROOT, FIELD2, '"x"', txId('3')], 'x']]);
+  });
+
+  it('should prune transaction Ids with all triples deleted in stable cut', async () => {
+    expect(await compactEntityStore(state, eventStore, [txId('5'), txId('7')])).toEqual({ tx: 2, history: 2 });
+    expect(await collect(state.tx.hasMany([txId('3'), txId('5'), txId('7')]))).toEqual([false, true, false]);
+    expect(await collect(history)).toEqual([]);
+  });
+
+  it('should reclaim nothing on repeated compaction', async () => {
+    await compactEntityStore(state, eventStore, [txId('5'), txId('7')]);
+    expect(await compactEntityStore(state, eventStore, [txId('5'), txId('7')])).toEqual({ tx: 0, history: 0 });
+  });
+
+  it('should keep entity state valid for new events', async () => {
+    await compactEntityStore(state, eventStore, [txId('5'), txId('7')]);
+    await applyCommands(updateCommand('9', ROOT, TYPE, { [FIELD1]: { set: 'c' } }));
+    expect(await new ReadonlyOREntityCollection<MockId, V>(state).get(ROOT, { type: TYPE })).toEqual({ [FIELD1]: 'c' });
+  });
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      const event = (await command.handle(state, cmd))!;
+      events.set(`${getMockEventKey(event)}`, event);
+      await projection.reduce(state, event);
+    }
+  }
+});
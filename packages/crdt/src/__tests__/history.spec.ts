@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { ERR_DEPENDENCY_MISSING, OperationError } from '@mithic/commons';
+import { CausalCutTripleStore, ReadonlyEntityStoreAt, getEntityCausalCut } from '../history.ts';
+import {
+  EntityCommand, EntityCommandType, EntityEvent, OREntityCommandHandler, OREntityProjection
+} from '../mutation/index.ts';
+import { DefaultEntityStore, EntityStore } from '../store.ts';
+import { ReadonlyOREntityCollection } from '../view/index.ts';
+import { MockId, getMockEventKey } from './mocks.ts';
+import { collect, txId, updateCommand } from './utils.ts';
+
+type V = string | number;
+
+const TYPE = 'history';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD1 = 'field1';
+const FIELD2 = 'field2';
+
+describe(ReadonlyEntityStoreAt.name, () => {
+  let store: MapTripleStore<MockId, V>;
+  let history: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let events: Map<string, EntityEvent<MockId, V>>;
+  const command = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica0');
+  const projection = new OREntityProjection<MockId, V>(getMockEventKey);
+  const eventStore = {
+    getMany: (keys: Iterable<MockId>) => [...keys].map((key) => events.get(`${key}`)).values(),
+  };
+
+  beforeEach(async () => {
+    store = new MapTripleStore();
+    history = new MapTripleStore();
+    state = new DefaultEntityStore(() => store, void 0, () => history);
+    events = new Map();
+
+    await applyCommands(
+      updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' }, [FIELD2]: { add: ['x'] } }),
+      updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } }),
+      updateCommand('7', ROOT, TYPE, { [FIELD2]: { add: ['y'] } }),
+      { type: EntityCommandType.Delete, nonce: '9', root: ROOT, payload: { cmd: {}, type: TYPE } },
+    );
+  });
+
+  it('should keep deleted triples in history', async () => {
+    expect(await collect(store)).toEqual([[[ROOT, '$deleted', '', txId('9')], true]]);
+    expect(await collect(history.keys())).toHaveLength(4);
+  });
+
+  it.each([
+    [['3'], { [FIELD1]: 'a', [FIELD2]: 'x' }],
+    [['5'], { [FIELD1]: 'b', [FIELD2]: 'x' }],
+    [['7'], { [FIELD2]: 'y' }],
+    [['5', '7'], { [FIELD1]: 'b', [FIELD2]: 'x' }],
+    [['9'], undefined],
+  ])('should return entity state at heads %j', async (heads, expected) => {
+    const view = await viewAt(heads);
+    expect(await view.get(ROOT, { type: TYPE })).toEqual(expected);
+  });
+
+  it('should return all values of attribute at heads', async () => {
+    const view = await viewAt(['5', '7']);
+    expect(await view.get(ROOT, { type: TYPE, attr: { [FIELD2]: (values: V[] = [], value) => [...values, value] } }))
+      .toEqual({ [FIELD2]: ['x', 'y'] });
+  });
+
+  it('should query entities by attribute at heads', async () => {
+    expect(await collect((await viewAt(['3'])).keysByAttr({ type: TYPE, by: FIELD1, lower: 'a', upper: 'a', upperOpen: false })))
+      .toEqual([ROOT]);
+    expect(await collect((await viewAt(['5'])).keysByAttr({ type: TYPE, by: FIELD1, lower: 'a', upper: 'a', upperOpen: false })))
+      .toEqual([]);
+  });
+
+  it('should only return current triples added in the cut if history is not kept', async () => {
+    const cut = await getEntityCausalCut(eventStore, [txId('3')]);
+    const triples = new CausalCutTripleStore(new MapTripleStore<MockId, V>(), void 0, cut);
+    expect(await collect(triples)).toEqual([]);
+  });
+
+  it('should throw on missing events', async () => {
+    await expect(getEntityCausalCut(eventStore, [txId('11')]))
+      .rejects.toEqual(new OperationError('missing dependencies', {
+        code: ERR_DEPENDENCY_MISSING, detail: [txId('11')],
+      }));
+  });
+
+  async function viewAt(heads: string[]) {
+    const cut = await getEntityCausalCut(eventStore, heads.map(txId));
+    return new ReadonlyOREntityCollection<MockId, V>(new ReadonlyEntityStoreAt(state, cut));
+  }
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      const event = (await command.handle(state, cmd))!;
+      events.set(`${getMockEventKey(event)}`, event);
+      await projection.reduce(state, event);
+    }
+  }
+});
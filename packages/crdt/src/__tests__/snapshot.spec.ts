@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { BTreeMap, MapTripleStore, compareMultiKeys } from '@mithic/collections';
+import { EntityCommand, EntityEvent, OREntityCommandHandler, OREntityProjection } from '../mutation/index.ts';
+import { EntityStoreSnapshot, exportEntityStore, importEntityStore } from '../snapshot.ts';
+import { DefaultEntityStore, EntityStore } from '../store.ts';
+import { ReadonlyOREntityCollection } from '../view/index.ts';
+import { MockId, getMockEventKey } from './mocks.ts';
+import { collect, txId, updateCommand } from './utils.ts';
+
+type V = string | number;
+
+const TYPE = 'snapshot';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD1 = 'field1';
+const FIELD2 = 'field2';
+
+describe(exportEntityStore.name, () => {
+  let state: EntityStore<MockId, V>;
+  let events: EntityEvent<MockId, V>[];
+  const command = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica0');
+  const projection = new OREntityProjection<MockId, V>(getMockEventKey);
+
+  beforeEach(async () => {
+    state = new DefaultEntityStore(void 0, void 0, () => new MapTripleStore());
+    events = [];
+    await applyCommands(state,
+      updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' }, [FIELD2]: { add: ['x'] } }),
+      updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } }),
+    );
+  });
+
+  it('should export triples, history and tx set of entity store', async () => {
+    expect(await exportEntityStore(state, [txId('5')], [TYPE])).toEqual({
+      heads: [txId('5')],
+      tx: [txId('3'), txId('5')],
+      triples: {
+        [TYPE]: [[[ROOT, FIELD1, '"b"', txId('5')], 'b'], [[ROOT, FIELD2, '"x"', txId('3')], 'x']],
+      },
+      history: {
+        [TYPE]: [[[ROOT, FIELD1, '"a"', txId('3')], 'a']],
+      },
+    } satisfies EntityStoreSnapshot<MockId, V>);
+  });
+
+  it('should export only given entity types', async () => {
+    expect(await exportEntityStore(state, [], ['other'])).toEqual({
+      heads: [], tx: [txId('3'), txId('5')], triples: { other: [] }, history: { other: [] },
+    } satisfies EntityStoreSnapshot<MockId, V>);
+  });
+
+  it('should export existing data of a newly constructed store', async () => {
+    const restarted = new DefaultEntityStore<MockId, V>((type) => state.store(type), state.tx);
+    expect((await exportEntityStore(restarted, [txId('5')], [TYPE])).triples).toEqual({
+      [TYPE]: [[[ROOT, FIELD1, '"b"', txId('5')], 'b'], [[ROOT, FIELD2, '"x"', txId('3')], 'x']],
+    });
+  });
+
+  it('should throw if tx set is not iterable', async () => {
+    await expect(exportEntityStore({ ...state, store: state.store, tx: { hasMany: state.tx.hasMany } }, [], [TYPE]))
+      .rejects.toEqual(new TypeError('tx set is not iterable'));
+  });
+
+  describe(importEntityStore.name, () => {
+    it('should restore snapshot into entity store for replaying later events', async () => {
+      const snapshot = await exportEntityStore(state, [txId('5')], [TYPE]);
+      const newState = new DefaultEntityStore<MockId, V>();
+      expect(await importEntityStore(newState, snapshot)).toEqual([txId('5')]);
+      expect(await collect(newState.tx.hasMany([txId('3'), txId('5')]))).toEqual([true, true]);
+
+      await applyCommands(newState, updateCommand('7', ROOT, TYPE, { [FIELD1]: { set: 'c' } }));
+      await projection.reduce(newState, events[0]); // replayed events are ignored
+      expect(await new ReadonlyOREntityCollection<MockId, V>(newState).get(ROOT, { type: TYPE }))
+        .toEqual({ [FIELD1]: 'c', [FIELD2]: 'x' });
+    });
+
+    it('should restore authors of signed transactions if tracked', async () => {
+      const authors = new BTreeMap<MockId, string>(5, compareMultiKeys);
+      await collect(authors.setMany([[txId('3'), 'alice']]));
+      const tracked = new DefaultEntityStore<MockId, V>((type) => state.store(type), state.tx, void 0, authors);
+      const snapshot = await exportEntityStore(tracked, [txId('5')], [TYPE]);
+      expect(snapshot.authors).toEqual([[txId('3'), 'alice']]);
+
+      const newAuthors = new BTreeMap<MockId, string>(5, compareMultiKeys);
+      await importEntityStore(new DefaultEntityStore<MockId, V>(void 0, void 0, void 0, newAuthors), snapshot);
+      expect(await collect(newAuthors.getMany([txId('3'), txId('5')]))).toEqual(['alice', undefined]);
+    });
+
+    it('should reject invalid snapshot', async () => {
+      await expect(importEntityStore(new DefaultEntityStore(), { heads: [] } as unknown as EntityStoreSnapshot<MockId, V>))
+        .rejects.toEqual(new TypeError('invalid snapshot'));
+    });
+  });
+
+  async function applyCommands(state: EntityStore<MockId, V>, ...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      const event = (await command.handle(state, cmd))!;
+      events.push(event);
+      await projection.reduce(state, event);
+    }
+  }
+});
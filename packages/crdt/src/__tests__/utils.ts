@@ -1,4 +1,6 @@
 import { SyncOrAsyncIterable } from '@mithic/commons';
+import { EntityCommand, EntityCommandType } from '../mutation/index.ts';
+import { MockId } from './mocks.ts';
 
 export async function collect<T>(entries: SyncOrAsyncIterable<T>): Promise<T[]> {
   const results = [];
@@ -7,3 +9,44 @@ export async function collect<T>(entries: SyncOrAsyncIterable<T>): Promise<T[]>
   }
   return results;
 }
+
+/** Returns the key of the event with given nonce, as returned by `getMockEventKey`. */
+export function txId(nonce: string): MockId {
+  return new MockId(new Uint8Array(parseInt(nonce)));
+}
+
+export function updateCommand<V>(
+  nonce: string, root: MockId, type: string, cmd: EntityCommand<MockId, V>['payload']['cmd']
+): EntityCommand<MockId, V> {
+  return { type: EntityCommandType.Update, nonce, root, payload: { cmd, type } };
+}
+
+const READ_METHODS = new Set([
+  'entries', 'entriesByAttr', 'entriesMany', 'findMany', 'findManyByAttr', 'getMany', 'hasMany',
+]);
+const BATCH_METHODS = new Set(['entriesMany', 'findMany', 'findManyByAttr']);
+
+/** Returns a proxy of given store which records the names of methods called and the number of entries read. */
+export function countStoreCalls<S extends object>(store: S): [S, { readonly calls: string[]; reads: number }] {
+  const stats = { calls: [] as string[], reads: 0 };
+  async function* count<T>(entries: SyncOrAsyncIterable<T>): AsyncIterableIterator<T> {
+    for await (const entry of entries) {
+      ++stats.reads;
+      yield entry;
+    }
+  }
+  const proxy = new Proxy(store, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (!(value instanceof Function)) { return value; }
+      return (...args: unknown[]) => {
+        stats.calls.push(String(prop));
+        const result = value.apply(target, args);
+        if (!READ_METHODS.has(String(prop))) { return result; }
+        return BATCH_METHODS.has(String(prop)) ?
+          [...result].map((entries: SyncOrAsyncIterable<unknown>) => count(entries)).values() : count(result);
+      };
+    },
+  });
+  return [proxy, stats];
+}
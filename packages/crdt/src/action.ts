@@ -21,4 +21,7 @@ export type StandardCommand<A extends string = string, T = unknown, Id = unknown
 export interface StandardEvent<A extends string = string, T = unknown, Id = unknown> extends StandardAction<A, T, Id> {
   /** Dependent event links. */
   readonly link?: readonly Id[];
+
+  /** Issue time of the event. */
+  readonly time?: number;
 }
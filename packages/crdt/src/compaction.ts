@@ -0,0 +1,101 @@
+import { EntityAttrKey, MaybeAsyncMapGetBatch } from '@mithic/collections';
+import { AbortOptions, OperationError, ToString } from '@mithic/commons';
+import { entityTripleKey, getEntityAncestors } from './history.ts';
+import { EntityEvent, EntityEventType, splitEntityEvent } from './mutation/index.ts';
+import { ENTITY_TOMBSTONE_ATTR, EntityStore } from './store.ts';
+import { resolveEventTimeTag } from './utils/index.ts';
+
+/** Amount of data reclaimed by {@link compactEntityStore}. */
+export interface EntityCompactionResult {
+  /** Number of transaction Ids pruned. */
+  readonly tx: number;
+
+  /** Number of deleted triples pruned from history. */
+  readonly history: number;
+}
+
+/**
+ * Compacts given entity store, given the heads of the causally stable cut, i.e. acknowledged by all known replicas.
+ * Transaction Ids whose triples have all been deleted by stable events can no longer be referenced by new events,
+ * and are pruned along with history of triples deleted by stable events.
+ * Events concurrent to the cut must have been received before compaction.
+ * Time-travel views before the cut are no longer complete after compaction.
+ */
+export async function compactEntityStore<Id extends ToString, V>(
+  state: EntityStore<Id, V>,
+  events: MaybeAsyncMapGetBatch<Id, EntityEvent<Id, V>>,
+  heads: Iterable<Id>,
+  options?: AbortOptions,
+): Promise<EntityCompactionResult> {
+  const deleted = new Set<string>();
+  const deletedByType = new Map<string | undefined, EntityAttrKey<Id>[]>();
+  const added: [txId: Id, keys: string[]][] = [];
+
+  for await (const [key, event] of getEntityAncestors(events, heads, options)) {
+    const keys: string[] = [];
+    for (const [root, entityEvent] of splitEntityEvent(event, key)) {
+      for (const [attr, tag, value, ...parents] of entityEvent.payload.ops) {
+        for (const parent of parents) {
+          const txId = event.link?.[parent];
+          const deletedKey = [root, attr, tag, txId] as const;
+          const deletedKeyStr = entityTripleKey(deletedKey);
+          if (txId === void 0 || deleted.has(deletedKeyStr)) { continue; }
+          deleted.add(deletedKeyStr);
+
+          let typeKeys = deletedByType.get(entityEvent.payload.type);
+          if (!typeKeys) {
+            deletedByType.set(entityEvent.payload.type, typeKeys = []);
+          }
+          typeKeys.push(deletedKey);
+        }
+        if (value !== null) {
+          keys.push(entityTripleKey([root, attr, resolveEventTimeTag(tag, event.time), key]));
+        }
+      }
+      if (entityEvent.type === EntityEventType.Delete) {
+        keys.push(entityTripleKey([root, ENTITY_TOMBSTONE_ATTR, '', key]));
+      }
+    }
+    added.push([key, keys]);
+  }
+
+  // prune transaction Ids with no remaining triples
+  let tx = 0;
+  if (state.tx.deleteMany) {
+    const txIds = added.filter(([, keys]) => keys.every((key) => deleted.has(key))).map(([txId]) => txId);
+    const existing: Id[] = [];
+    let i = 0;
+    for await (const exist of state.tx.hasMany(txIds, options)) {
+      if (exist) { existing.push(txIds[i]); }
+      ++i;
+    }
+    if (existing.length) {
+      for await (const error of state.tx.deleteMany(existing, options)) {
+        if (error) { throw new OperationError('failed to compact', { cause: error }); }
+      }
+    }
+    tx = existing.length;
+  }
+
+  // prune history of deleted triples
+  let history = 0;
+  for (const [type, keys] of deletedByType) {
+    const store = state.history?.(type);
+    if (!store) { continue; }
+
+    const existing: EntityAttrKey<Id>[] = [];
+    let i = 0;
+    for await (const exist of store.hasMany(keys, options)) {
+      if (exist) { existing.push(keys[i]); }
+      ++i;
+    }
+    if (existing.length) {
+      for await (const error of store.deleteMany(existing, options)) {
+        if (error) { throw new OperationError('failed to compact', { cause: error }); }
+      }
+    }
+    history += existing.length;
+  }
+
+  return { tx, history };
+}
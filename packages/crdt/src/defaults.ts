@@ -13,6 +13,36 @@ export const getCID = await (async () => {
   }
 })();
 
+/** Default Id parsing function, which parses CIDs using multiformats as optional dependency. */
+export const defaultParseId = await (async () => {
+  try {
+    const { CID } = await import('multiformats');
+    return <Id>(id: string) => CID.parse(id) as unknown as Id;
+  } catch {
+    return <Id>(): Id => { throw new InvalidStateError('multiformats not available'); };
+  }
+})();
+
+/** Default event encoding function for signing, which uses @ipld/dag-cbor as optional dependency. */
+export const defaultEncode = await (async () => {
+  try {
+    const dagCbor = await import('@ipld/dag-cbor');
+    return <Event>(event: Event): Uint8Array => dagCbor.encode(event);
+  } catch {
+    return (): Uint8Array => { throw new InvalidStateError('@ipld/dag-cbor not available'); };
+  }
+})();
+
+/** Default value decoding function for decryption, which uses @ipld/dag-cbor as optional dependency. */
+export const defaultDecode = await (async () => {
+  try {
+    const dagCbor = await import('@ipld/dag-cbor');
+    return <V>(data: Uint8Array): V => dagCbor.decode(data);
+  } catch {
+    return <V>(): V => { throw new InvalidStateError('@ipld/dag-cbor not available'); };
+  }
+})();
+
 /** Default value stringify function. */
 export const defaultStringify = await (async () => {
   try {
@@ -0,0 +1,261 @@
+import {
+  AttrSearchKey, EntityAttrKey, EntityAttrSearchKey, MaybeAsyncMapGetBatch, MaybeAsyncReadonlySetBatch,
+  ReadonlyTripleStore, TripleRangeQueryOptions, compareMultiKeys, rangeQueryable
+} from '@mithic/collections';
+import {
+  AbortOptions, ContentId, ERR_DEPENDENCY_MISSING, MaybeAsyncIterableIterator, OperationError, ToString
+} from '@mithic/commons';
+import { EntityEvent } from './mutation/interface.ts';
+import { splitEntityEvent } from './mutation/tx.ts';
+import { ReadonlyEntityStore } from './store.ts';
+
+/** Causal cut of entity events, i.e. a set of head events and all their ancestors. */
+export interface EntityCausalCut {
+  /** Transaction (event) Ids in the cut. */
+  readonly tx: ReadonlySet<string>;
+
+  /** Keys of triples deleted by transactions in the cut, as returned by {@link entityTripleKey}. */
+  readonly deleted: ReadonlySet<string>;
+}
+
+/** Returns the causal cut at given heads, by traversing events from given event store, e.g. `DagEventStore`. */
+export async function getEntityCausalCut<Id extends ToString, V>(
+  events: MaybeAsyncMapGetBatch<Id, EntityEvent<Id, V>>, heads: Iterable<Id>, options?: AbortOptions
+): Promise<EntityCausalCut> {
+  const tx = new Set<string>();
+  const deleted = new Set<string>();
+  for await (const [key, event] of getEntityAncestors(events, heads, options)) {
+    tx.add(`${key}`);
+    for (const [root, entityEvent] of splitEntityEvent(event, key)) {
+      for (const [attr, tag, , ...parents] of entityEvent.payload.ops) {
+        for (const parent of parents) {
+          const txId = event.link?.[parent];
+          if (txId !== void 0) { deleted.add(entityTripleKey([root, attr, tag, txId])); }
+        }
+      }
+    }
+  }
+  return { tx, deleted };
+}
+
+/** Iterates given head events and all their ancestors from given event store, in breadth-first order. */
+export async function* getEntityAncestors<Id extends ToString, V>(
+  events: MaybeAsyncMapGetBatch<Id, EntityEvent<Id, V>>, heads: Iterable<Id>, options?: AbortOptions
+): AsyncIterableIterator<[key: Id, event: EntityEvent<Id, V>]> {
+  const visited = new Set<string>();
+  for (let keys = [...heads]; keys.length;) {
+    const batch = keys.filter((key) => !visited.has(`${key}`) && !!visited.add(`${key}`));
+    keys = [];
+
+    let i = 0;
+    for await (const event of events.getMany(batch, options)) {
+      const key = batch[i++];
+      if (!event) {
+        throw new OperationError('missing dependencies', { code: ERR_DEPENDENCY_MISSING, detail: [key] });
+      }
+      yield [key, event];
+      keys.push(...(event.link || []));
+    }
+  }
+}
+
+/** Returns the string key of given triple, as used by {@link EntityCausalCut}. */
+export function entityTripleKey<Id extends ToString>([id, attr, tag, txId]: EntityAttrKey<Id>): string {
+  return JSON.stringify([`${id}`, attr, tag, `${txId}`]);
+}
+
+/**
+ * Readonly {@link ReadonlyEntityStore} as of given causal cut.
+ * Triples deleted after the cut can only be seen if given store keeps history.
+ */
+export class ReadonlyEntityStoreAt<Id extends ToString = ContentId, V = unknown> implements ReadonlyEntityStore<Id, V> {
+  public readonly tx: MaybeAsyncReadonlySetBatch<Id> = {
+    hasMany: (keys: Iterable<Id>) => [...keys].map((key) => this.cut.tx.has(`${key}`)).values(),
+  };
+
+  public constructor(
+    /** The current store state. */
+    protected readonly state: ReadonlyEntityStore<Id, V>,
+    /** The causal cut to view. */
+    protected readonly cut: EntityCausalCut,
+  ) { }
+
+  public store(type?: string): ReadonlyTripleStore<Id, V> {
+    return new CausalCutTripleStore(this.state.store(type), this.state.history?.(type), this.cut);
+  }
+}
+
+/** Readonly {@link ReadonlyTripleStore} of triples visible at a causal cut, merged from current and history stores. */
+export class CausalCutTripleStore<Id extends ToString = ContentId, V = unknown>
+  implements ReadonlyTripleStore<Id, V>, AsyncIterable<[EntityAttrKey<Id>, V]>
+{
+  public constructor(
+    /** Store of current triples. */
+    protected readonly current: ReadonlyTripleStore<Id, V>,
+    /** Store of deleted triples. */
+    protected readonly history: ReadonlyTripleStore<Id, V> | undefined,
+    /** The causal cut to view. */
+    protected readonly cut: EntityCausalCut,
+  ) { }
+
+  public async * entries(
+    options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>
+  ): AsyncIterableIterator<[EntityAttrKey<Id>, V]> {
+    const { limit = Infinity, ...rangeOptions } = options || {};
+    yield* this.filter(mergeEntries(
+      this.current.entries(rangeOptions), this.history?.entries(rangeOptions), compareMultiKeys, options?.reverse
+    ), limit);
+  }
+
+  public async * keys(
+    options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>
+  ): AsyncIterableIterator<EntityAttrKey<Id>> {
+    for await (const [key] of this.entries(options)) { yield key; }
+  }
+
+  public async * values(options?: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>): AsyncIterableIterator<V> {
+    for await (const [, value] of this.entries(options)) { yield value; }
+  }
+
+  public async * entriesByAttr(
+    options?: TripleRangeQueryOptions<AttrSearchKey, Id>
+  ): AsyncIterableIterator<[EntityAttrKey<Id>, V]> {
+    const { limit = Infinity, ...rangeOptions } = options || {};
+    yield* this.filter(mergeEntries(
+      this.current.entriesByAttr(rangeOptions), this.history?.entriesByAttr(rangeOptions),
+      ([id1, ...key1], [id2, ...key2]) => compareMultiKeys(key1, key2) || compareMultiKeys(id1, id2),
+      options?.reverse,
+    ), limit);
+  }
+
+  public async * keysByAttr(
+    options?: TripleRangeQueryOptions<AttrSearchKey, Id>
+  ): AsyncIterableIterator<EntityAttrKey<Id>> {
+    for await (const [key] of this.entriesByAttr(options)) { yield key; }
+  }
+
+  public async * valuesByAttr(options?: TripleRangeQueryOptions<AttrSearchKey, Id>): AsyncIterableIterator<V> {
+    for await (const [, value] of this.entriesByAttr(options)) { yield value; }
+  }
+
+  public * entriesMany(
+    queries: Iterable<TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>>, options?: AbortOptions
+  ): IterableIterator<AsyncIterableIterator<[EntityAttrKey<Id>, V]>> {
+    for (const query of queries) {
+      yield this.entries({ ...query, signal: options?.signal ?? query.signal });
+    }
+  }
+
+  public * findMany(
+    keys: Iterable<EntityAttrSearchKey<Id>>, options?: AbortOptions
+  ): IterableIterator<AsyncIterableIterator<[EntityAttrKey<Id>, V]>> {
+    for (const key of keys) {
+      yield this.entries({ lower: key, upper: key, upperOpen: false, signal: options?.signal });
+    }
+  }
+
+  public * findManyByAttr(
+    keys: Iterable<AttrSearchKey>, options?: AbortOptions
+  ): IterableIterator<AsyncIterableIterator<[EntityAttrKey<Id>, V]>> {
+    for (const key of keys) {
+      yield this.entriesByAttr({ lower: key, upper: key, upperOpen: false, signal: options?.signal });
+    }
+  }
+
+  public async * getMany(keys: Iterable<EntityAttrKey<Id>>, options?: AbortOptions): AsyncIterableIterator<V | undefined> {
+    const keyArray = [...keys];
+    const values: (V | undefined)[] = [];
+    for await (const value of this.current.getMany(keyArray, options)) { values.push(value); }
+
+    const missing = keyArray.map((_, i) => i).filter((i) => values[i] === void 0);
+    if (this.history && missing.length) {
+      let i = 0;
+      for await (const value of this.history.getMany(missing.map((i) => keyArray[i]), options)) {
+        values[missing[i++]] = value;
+      }
+    }
+
+    for (let i = 0; i < keyArray.length; ++i) {
+      yield this.isVisible(keyArray[i]) ? values[i] : void 0;
+    }
+  }
+
+  public async get(key: EntityAttrKey<Id>, options?: AbortOptions): Promise<V | undefined> {
+    for await (const value of this.getMany([key], options)) { return value; }
+  }
+
+  public async has(key: EntityAttrKey<Id>, options?: AbortOptions): Promise<boolean> {
+    return (await this.get(key, options)) !== void 0;
+  }
+
+  public async * hasMany(keys: Iterable<EntityAttrKey<Id>>, options?: AbortOptions): AsyncIterableIterator<boolean> {
+    for await (const value of this.getMany(keys, options)) { yield value !== void 0; }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<[EntityAttrKey<Id>, V]> {
+    return this.entries();
+  }
+
+  public get [rangeQueryable](): true {
+    return true;
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return CausalCutTripleStore.name;
+  }
+
+  /** Returns if given triple is added and not deleted in the cut. */
+  protected isVisible(key: EntityAttrKey<Id>): boolean {
+    return this.cut.tx.has(`${key[3]}`) && !this.cut.deleted.has(entityTripleKey(key));
+  }
+
+  /** Filters given entries to those visible in the cut, up to given limit. */
+  protected async * filter(
+    entries: AsyncIterableIterator<[EntityAttrKey<Id>, V]>, limit: number
+  ): AsyncIterableIterator<[EntityAttrKey<Id>, V]> {
+    if (limit <= 0) { return; }
+    let count = 0;
+    for await (const entry of entries) {
+      if (!this.isVisible(entry[0])) { continue; }
+      yield entry;
+      if (++count >= limit) { break; }
+    }
+  }
+}
+
+/** Merges given sorted entry iterators into one, skipping duplicated keys. */
+async function * mergeEntries<K, V>(
+  iter1: MaybeAsyncIterableIterator<[K, V]>,
+  iter2: MaybeAsyncIterableIterator<[K, V]> | undefined,
+  compare: (a: K, b: K) => number,
+  reverse = false,
+): AsyncIterableIterator<[K, V]> {
+  if (!iter2) {
+    yield* iter1;
+    return;
+  }
+
+  const a = toIterator(iter1);
+  const b = toIterator(iter2);
+  let [resultA, resultB] = await Promise.all([a.next(), b.next()]);
+  try {
+    while (!resultA.done || !resultB.done) {
+      const order = resultA.done ? 1 : resultB.done ? -1 :
+        compare(resultA.value[0], resultB.value[0]) * (reverse ? -1 : 1);
+      if (order <= 0) {
+        yield resultA.value as [K, V];
+        if (order === 0) { resultB = await b.next(); }
+        resultA = await a.next();
+      } else {
+        yield resultB.value as [K, V];
+        resultB = await b.next();
+      }
+    }
+  } finally {
+    await Promise.all([a.return?.(), b.return?.()]);
+  }
+}
+
+function toIterator<T>(iter: MaybeAsyncIterableIterator<T>): AsyncIterator<T> | Iterator<T> {
+  return Symbol.asyncIterator in iter ? iter[Symbol.asyncIterator]() : iter[Symbol.iterator]();
+}
@@ -1,5 +1,8 @@
 export * from './action.ts';
 export * from './aggregate.ts';
+export * from './compaction.ts';
+export * from './history.ts';
+export * from './snapshot.ts';
 export * from './store.ts';
 
 export * from './mutation/index.ts';
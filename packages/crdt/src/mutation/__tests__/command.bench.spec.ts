@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { collect, countStoreCalls, updateCommand } from '../../__tests__/utils.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+import { OREntityCommandHandler } from '../command.ts';
+import { OREntityProjection } from '../event.ts';
+import { EntityCommand, EntityCommandType } from '../interface.ts';
+
+type V = string | number | MockId;
+
+const TYPE = 'bench';
+const ROOT = new MockId(new Uint8Array(1));
+const LIST = 'list';
+const PARENT = 'parent';
+
+/** Round trips and entries read from the store per command, which dominate the cost on remote or disk backends. */
+describe(`${OREntityCommandHandler.name} round trips`, () => {
+  let store: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  const command = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica0', void 0, void 0, getMockEventKey);
+  const projection = new OREntityProjection<MockId, V>(getMockEventKey);
+
+  beforeEach(() => {
+    store = new MapTripleStore();
+    state = new DefaultEntityStore<MockId, V>(() => store);
+  });
+
+  it.each([1, 10, 100])('should update %d attributes in one round trip instead of one per attribute', async (count) => {
+    const cmd = Object.fromEntries([...Array(count).keys()].map((i) => [`field${i}`, { set: i }]));
+    await applyCommands(updateCommand('3', ROOT, TYPE, cmd));
+
+    const batched = countStoreCalls(store);
+    await command.handle(new DefaultEntityStore<MockId, V>(() => batched[0]), updateCommand('5', ROOT, TYPE, cmd));
+
+    const separate = countStoreCalls(store);
+    for (const [attr, attrCmd] of Object.entries(cmd)) {
+      await command.handle(
+        new DefaultEntityStore<MockId, V>(() => separate[0]), updateCommand('5', ROOT, TYPE, { [attr]: attrCmd })
+      );
+    }
+
+    expect(batched[1].calls).toHaveLength(1);
+    expect(separate[1].calls).toHaveLength(count);
+    expect(batched[1].reads).toBe(separate[1].reads);
+  });
+
+  it.each([10, 100, 1000])('should splice a list of %d items in one round trip of constant reads', async (count) => {
+    await applyCommands(updateCommand('3', ROOT, TYPE, {
+      [LIST]: { splice: ['', 0, ...[...Array(count).keys()].map((i) => `${i}`)] },
+    }));
+    const indices = (await collect(store.keys({ lower: [ROOT, LIST], upper: [ROOT, LIST], upperOpen: false })))
+      .map(([, , index]) => index);
+    const index = indices[indices.length >> 1];
+
+    const insert = countStoreCalls(store);
+    await command.handle(
+      new DefaultEntityStore<MockId, V>(() => insert[0]),
+      updateCommand('5', ROOT, TYPE, { [LIST]: { splice: [index, 0, 'x'] } }),
+    );
+    const replace = countStoreCalls(store);
+    await command.handle(
+      new DefaultEntityStore<MockId, V>(() => replace[0]),
+      updateCommand('5', ROOT, TYPE, { [LIST]: { splice: [index, 1, 'x'] } }),
+    );
+
+    expect(insert[1]).toEqual({ calls: ['entriesMany'], reads: 1 });
+    expect(replace[1]).toEqual({ calls: ['entriesMany'], reads: 2 });
+  });
+
+  it.each([10, 100])('should read a constant number of entries to move a node in a tree of %d nodes', async (count) => {
+    const nodes: MockId[] = [];
+    for (let i = 0; i < count; ++i) {
+      const cmd = {
+        type: EntityCommandType.Update, nonce: `${i + 3}`, payload: { cmd: { [PARENT]: { parent: ROOT } }, type: TYPE },
+      };
+      await applyCommands(cmd);
+      nodes.push(getMockEventKey(cmd));
+    }
+
+    const move = countStoreCalls(store);
+    await command.handle(
+      new DefaultEntityStore<MockId, V>(() => move[0]),
+      updateCommand(`${count + 3}`, nodes[0], TYPE, { [PARENT]: { parent: nodes[1] } }),
+    );
+
+    expect(move[1].reads).toBe(2); // existing parent of moved node, and parent of new parent
+  });
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      await projection.reduce(state, (await command.handle(state, cmd))!);
+    }
+  }
+});
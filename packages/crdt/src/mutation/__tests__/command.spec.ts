@@ -1,16 +1,25 @@
 import { beforeEach, describe, expect, it } from '@jest/globals';
 import { MapTripleStore } from '@mithic/collections';
-import { DefaultEntityStore, EntityStore } from '../../store.ts';
-import { FractionalIndexGenerator } from '../../utils/index.ts';
+import { DefaultEntityStore, ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, EntityStore } from '../../store.ts';
+import {
+  EVENT_TIME_TAG, FractionalIndexGenerator, createLSeqMoveTag, createMarkTag, encodeEventTime, markAttr, textCharId
+} from '../../utils/index.ts';
 import { OREntityCommandHandler } from '../command.ts';
 import { OREntityProjection } from '../event.ts';
-import { EntityCommand, EntityCommandHandler, EntityCommandType, EntityEvent, EntityEventType, EntityProjection } from '../interface.ts';
+import {
+  EntityAttrCommand, EntityCommand, EntityCommandHandler, EntityCommandType, EntityEvent, EntityEventType,
+  EntityProjection
+} from '../interface.ts';
+import { EntityAttrKind } from '../schema.ts';
 import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { collect, countStoreCalls, updateCommand } from '../../__tests__/utils.ts';
+import { ReadonlyLSeq } from '../../view/index.ts';
 import { defaultStringify } from '../../defaults.ts';
 
 type V = string | number | boolean;
 
 const GENERATOR = new FractionalIndexGenerator(() => 0.5);
+const REPLICA = 'replica0';
 
 const TYPE = 'ormap';
 const ROOT = new MockId(new Uint8Array(1));
@@ -59,6 +68,14 @@ const CMD_SPLICE_DEL = {
   type: EntityCommandType.Update, nonce: '13', root: ROOT,
   payload: { cmd: { [FIELD1]: { splice: [INDEX0, 2, VALUE1, VALUE3] } }, type: TYPE }
 } satisfies EntityCommand<MockId, V>;
+const CMD_INC = {
+  type: EntityCommandType.Update, nonce: '17', root: ROOT,
+  payload: { cmd: { [FIELD2]: { inc: 3 } }, type: TYPE }
+} satisfies EntityCommand<MockId, V>;
+const CMD_DEC = {
+  type: EntityCommandType.Update, nonce: '19', root: ROOT,
+  payload: { cmd: { [FIELD2]: { inc: -5 } }, type: TYPE }
+} satisfies EntityCommand<MockId, V>;
 
 describe(OREntityCommandHandler.name, () => {
   let store: MapTripleStore<MockId, V>;
@@ -72,7 +89,7 @@ describe(OREntityCommandHandler.name, () => {
       expect(type).toBe(TYPE);
       return store;
     });
-    command = new OREntityCommandHandler<MockId, V>(defaultStringify, GENERATOR);
+    command = new OREntityCommandHandler<MockId, V>(defaultStringify, GENERATOR, REPLICA);
     projection = new OREntityProjection(getMockEventKey);
   });
 
@@ -188,6 +205,359 @@ describe(OREntityCommandHandler.name, () => {
     } satisfies EntityEvent<MockId, V>);
   });
 
+  it('should return valid event for increment command', async () => {
+    const event = await command.handle(state, CMD_INC);
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: CMD_INC.nonce, link: [],
+      payload: { ops: [[FIELD2, REPLICA, 3]], type: TYPE },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should replace existing counter value of replica on increment', async () => {
+    await applyCommands(CMD_INC);
+    const event = await command.handle(state, CMD_DEC);
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: CMD_DEC.nonce,
+      payload: { ops: [[FIELD2, REPLICA, -2, 0]], type: TYPE },
+      link: [getMockEventKey(CMD_INC)],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should keep counter values of other replicas on increment', async () => {
+    const otherCommand = new OREntityCommandHandler<MockId, V>(defaultStringify, GENERATOR, 'replica1');
+    await projection.reduce(state, (await otherCommand.handle(state, CMD_INC))!);
+    const event = await command.handle(state, CMD_DEC);
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: CMD_DEC.nonce, link: [],
+      payload: { ops: [[FIELD2, REPLICA, -5]], type: TYPE },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should throw on increment combined with set', async () => {
+    await expect(command.handle(state, {
+      ...CMD_INC, payload: { cmd: { [FIELD2]: { inc: 1, set: 1 } }, type: TYPE },
+    })).rejects.toEqual(new TypeError(`conflicting commands: "${FIELD2}"`));
+  });
+
+  it.each(['', 'a@', 'a,b'])('should throw for invalid replica ID "%s"', (replica) => {
+    expect(() => new OREntityCommandHandler<MockId, V>(defaultStringify, GENERATOR, replica)).toThrow(TypeError);
+  });
+
+  it('should throw on values with tags ending with the event time tag', async () => {
+    const command = new OREntityCommandHandler<MockId, V>((value) => `${value}`, GENERATOR, REPLICA);
+    await expect(command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { add: [`a${EVENT_TIME_TAG}`] } }, type: TYPE },
+    })).rejects.toEqual(new TypeError(`invalid value tag: "a${EVENT_TIME_TAG}"`));
+  });
+
+  it('should return valid event for last-writer-wins set command', async () => {
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { set: VALUE1, lww: true } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '3', link: [],
+      payload: { ops: [[FIELD1, EVENT_TIME_TAG, VALUE1]], type: TYPE },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should delete existing time-tagged value on last-writer-wins set command', async () => {
+    const event1 = (await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { set: VALUE1, lww: true } }, type: TYPE },
+    }))!;
+    await projection.reduce(state, { ...event1, time: 123 });
+
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '5', root: ROOT,
+      payload: { cmd: { [FIELD1]: { set: VALUE2, lww: true } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '5',
+      payload: { ops: [[FIELD1, encodeEventTime(123), null, 0], [FIELD1, EVENT_TIME_TAG, VALUE2]], type: TYPE },
+      link: [getMockEventKey(event1)],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should keep only the latest existing parent on tree move command', async () => {
+    const events: EntityEvent<MockId, V>[] = [];
+    for (const [nonce, parent] of [['3', 'p1'], ['5', 'p2']]) {
+      const event = (await command.handle(state, {
+        type: EntityCommandType.Update, nonce, root: ROOT,
+        payload: { cmd: { [FIELD1]: { parent } }, type: TYPE },
+      }))!;
+      await projection.reduce(state, { ...event, time: events.push(event) });
+    }
+
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '7', root: ROOT,
+      payload: { cmd: { [FIELD1]: { parent: 'p3' } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '7',
+      payload: { ops: [[FIELD1, encodeEventTime(1), null, 0], [FIELD1, EVENT_TIME_TAG, 'p3']], type: TYPE },
+      link: [getMockEventKey(events[0])],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should reject tree move command that would introduce a cycle', async () => {
+    command = new OREntityCommandHandler<MockId, V>(
+      defaultStringify, GENERATOR, REPLICA, void 0, void 0, getMockEventKey, MockId.parse
+    );
+    const cmdChild = {
+      type: EntityCommandType.Update, nonce: '9',
+      payload: { cmd: { [FIELD1]: { parent: `${ROOT}` } }, type: TYPE },
+    } satisfies EntityCommand<MockId, V>;
+    await applyCommands(cmdChild);
+
+    for (const parent of [`${ROOT}`, `${getMockEventKey(cmdChild)}`]) {
+      await expect(command.handle(state, {
+        type: EntityCommandType.Update, nonce: '11', root: ROOT,
+        payload: { cmd: { [FIELD1]: { parent } }, type: TYPE },
+      })).rejects.toThrow(TypeError);
+    }
+  });
+
+  it('should return valid event for resolve command', async () => {
+    const event1 = await command.handle(state, CMD_ADD);
+    const event2 = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '5', root: ROOT,
+      payload: { cmd: { [FIELD1]: { set: VALUE0 } }, type: TYPE },
+    });
+    await projection.reduce(state, event1!);
+    await projection.reduce(state, event2!);
+
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '7', root: ROOT,
+      payload: { cmd: { [FIELD1]: { resolve: VALUE0 } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '7',
+      payload: { ops: [[FIELD1, `"${VALUE1}"`, null, 0]], type: TYPE },
+      link: [getMockEventKey(CMD_ADD)],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should throw on resolve command to a value not present', async () => {
+    await applyCommands(CMD_ADD);
+    await expect(command.handle(state, {
+      type: EntityCommandType.Update, nonce: '7', root: ROOT,
+      payload: { cmd: { [FIELD1]: { resolve: VALUE0 } }, type: TYPE },
+    })).rejects.toEqual(new TypeError(`resolved value not found: "${FIELD1}"`));
+  });
+
+  it('should return valid event for text splice command', async () => {
+    await applyCommands({
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { text: ['', 0, 'abc'] } }, type: TYPE },
+    });
+
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '5', root: ROOT,
+      payload: { cmd: { [FIELD1]: { text: [textCharId(INDEX0, 1), 1, 'd'] } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '5', link: [],
+      payload: {
+        ops: [
+          [FIELD1, textCharId(INDEX0, 0) + INDEX0, 'd'],
+          [FIELD1, textCharId(INDEX0, 1), 1],
+        ],
+        type: TYPE,
+      },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should return valid event for move command', async () => {
+    await applyCommands(CMD_SPLICE);
+    const [index] = GENERATOR.create(INDEX1);
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { move: [INDEX0, ''] } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '3', link: [getMockEventKey(CMD_SPLICE)],
+      payload: {
+        ops: [[FIELD1, INDEX0, null, 0], [FIELD1, createLSeqMoveTag(index, INDEX0), VALUE0]],
+        type: TYPE,
+      },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should delete all concurrently moved copies of list element on move', async () => {
+    await applyCommands(CMD_SPLICE);
+    const cmdMove = {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { move: [INDEX1, INDEX0] } }, type: TYPE },
+    } satisfies EntityCommand<MockId, V>;
+    const cmdMove2 = {
+      ...cmdMove, nonce: '5', payload: { ...cmdMove.payload, cmd: { [FIELD1]: { move: [INDEX1, ''] } } },
+    } satisfies EntityCommand<MockId, V>;
+    const event1 = await command.handle(state, cmdMove);
+    const event2 = await command.handle(state, cmdMove2);
+    await projection.reduce(state, { ...event1!, time: 1 });
+    await projection.reduce(state, { ...event2!, time: 2 });
+
+    const [index1] = GENERATOR.create(void 0, INDEX0);
+    const [index2] = GENERATOR.create(INDEX1);
+    const [index] = GENERATOR.create(void 0, index1);
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '7', root: ROOT,
+      payload: { cmd: { [FIELD1]: { move: [`${index2}!${INDEX1}!${encodeEventTime(2)}`, index1] } }, type: TYPE },
+    });
+    expect(event?.payload.ops).toEqual([
+      [FIELD1, createLSeqMoveTag(index, INDEX1), VALUE1],
+      [FIELD1, `${index1}!${INDEX1}!${encodeEventTime(1)}`, null, 0],
+      [FIELD1, `${index2}!${INDEX1}!${encodeEventTime(2)}`, null, 1],
+    ]);
+    expect(event?.link).toEqual([getMockEventKey(cmdMove), getMockEventKey(cmdMove2)]);
+  });
+
+  it('should splice only visible list elements, skipping losing copies of concurrent moves', async () => {
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { splice: ['', 0, 'x', 'z', 'y'] } }));
+    const [x, z, y] = await collect(new ReadonlyLSeq(store, ROOT, FIELD1).keys());
+    const event1 = await command.handle(state, updateCommand('5', ROOT, TYPE, { [FIELD1]: { move: [y, z] } }));
+    const event2 = await command.handle(state, updateCommand('7', ROOT, TYPE, { [FIELD1]: { move: [y, ''] } }));
+    await projection.reduce(state, { ...event1!, time: 1 });
+    await projection.reduce(state, { ...event2!, time: 2 });
+    expect(await collect(new ReadonlyLSeq(store, ROOT, FIELD1).values())).toEqual(['x', 'z', 'y']);
+
+    await applyCommands(updateCommand('9', ROOT, TYPE, { [FIELD1]: { splice: [x, 2] } }));
+    expect(await collect(new ReadonlyLSeq(store, ROOT, FIELD1).values())).toEqual(['y']);
+  });
+
+  it('should return valid event for delete command', async () => {
+    await applyCommands(CMD_ADD, CMD_ADD2);
+    const event = await command.handle(state, {
+      type: EntityCommandType.Delete, nonce: '9', root: ROOT, payload: { cmd: {}, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Delete, root: ROOT, nonce: '9',
+      payload: {
+        ops: [
+          [FIELD1, `"${VALUE1}"`, null, 0],
+          [FIELD2, `${VALUE2}`, null, 0],
+          [FIELD2, `${VALUE3}`, null, 0],
+          [FIELD3, `${VALUE2}`, null, 1],
+          [FIELD3, `${VALUE3}`, null, 1],
+        ],
+        type: TYPE,
+      },
+      link: [getMockEventKey(CMD_ADD), getMockEventKey(CMD_ADD2)],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should return undefined for delete command without root', async () => {
+    expect(await command.handle(state, {
+      type: EntityCommandType.Delete, nonce: '9', payload: { cmd: {}, type: TYPE },
+    })).toBeUndefined();
+  });
+
+  it('should reject command not conforming to schema', async () => {
+    command = new OREntityCommandHandler<MockId, V>(void 0, GENERATOR, REPLICA, new Map([
+      [TYPE, { attrs: { [FIELD0]: { kind: EntityAttrKind.Single, type: 'string' } } }],
+    ]));
+    expect(await command.handle(state, CMD_NEW)).toBeDefined();
+    await expect(command.handle(state, CMD_ADD)).rejects.toEqual(new TypeError(`unknown attribute: "${FIELD1}"`));
+    await expect(command.handle(state, {
+      ...CMD_NEW, payload: { cmd: { [FIELD0]: { add: [VALUE0] } }, type: TYPE },
+    })).rejects.toEqual(new TypeError(`invalid command for single attribute: "${FIELD0}"`));
+  });
+
+  it('should return valid event for mark command', async () => {
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: { [FIELD1]: { mark: [INDEX0, INDEX1, 'bold'] } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '3', link: [],
+      payload: { ops: [[markAttr(FIELD1), createMarkTag(INDEX0, INDEX1, 'bold'), true]], type: TYPE },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should return valid event for revert and restore command', async () => {
+    await applyCommands(CMD_ADD);
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '5', root: ROOT,
+      payload: {
+        cmd: {
+          [FIELD1]: { restore: [[`"${VALUE0}"`, VALUE0]] },
+          [FIELD2]: { revert: [[`${VALUE2}`, `${getMockEventKey(CMD_ADD)}`], [`${VALUE3}`, 'unknown']] },
+        },
+        type: TYPE,
+      },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '5',
+      payload: { ops: [[FIELD1, `"${VALUE0}"`, VALUE0], [FIELD2, `${VALUE2}`, null, 0]], type: TYPE },
+      link: [getMockEventKey(CMD_ADD)],
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it.each([
+    [ENTITY_TOMBSTONE_ATTR, { set: true }],
+    [ENTITY_TOMBSTONE_ATTR, { restore: [['', 'x']] }],
+    [ENTITY_KEY_ATTR, { set: 'kid' }],
+    [ENTITY_KEY_ATTR, { revert: [['kid', '1']] }],
+  ] satisfies [string, EntityAttrCommand<V>][])('should throw on command to reserved attribute %s', async (attr, cmd) => {
+    await expect(command.handle(state, {
+      type: EntityCommandType.Update, nonce: '3', root: ROOT, payload: { cmd: { [attr]: cmd }, type: TYPE },
+    })).rejects.toEqual(new TypeError(`reserved attribute: "${attr}"`));
+  });
+
+  it('should return valid event for reverting a tombstone', async () => {
+    await applyCommands(CMD_ADD);
+    const deleteCmd: EntityCommand<MockId, V> = {
+      type: EntityCommandType.Delete, nonce: '9', root: ROOT, payload: { cmd: {}, type: TYPE },
+    };
+    await applyCommands(deleteCmd);
+    const event = await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '10', root: ROOT,
+      payload: { cmd: { [ENTITY_TOMBSTONE_ATTR]: { revert: [['', `${getMockEventKey(deleteCmd)}`]] } }, type: TYPE },
+    });
+    expect(event).toEqual({
+      type: EntityEventType.Update, root: ROOT, nonce: '10', link: [getMockEventKey(deleteCmd)],
+      payload: { ops: [[ENTITY_TOMBSTONE_ATTR, '', null, 0]], type: TYPE },
+    } satisfies EntityEvent<MockId, V>);
+  });
+
+  it('should look up existing values of all attributes in a single round trip', async () => {
+    await applyCommands(CMD_ADD, CMD_ADD2, CMD_SPLICE);
+    const [countingStore, { calls }] = countStoreCalls(store);
+    const countingState = new DefaultEntityStore<MockId, V>(() => countingStore);
+    const event = await command.handle(countingState, {
+      type: EntityCommandType.Update, nonce: '9', root: ROOT,
+      payload: {
+        cmd: {
+          [FIELD0]: { inc: 1 },
+          [FIELD1]: { splice: [INDEX1, 1, VALUE0] },
+          [FIELD2]: { set: VALUE22 },
+          [FIELD3]: { del: [VALUE3] },
+        },
+        type: TYPE,
+      },
+    });
+    expect(calls).toEqual(['entriesMany']); // including list range to delete and insertion neighbor
+    expect(event?.payload.ops).toHaveLength(7);
+  });
+
+  it.each([1, 10, 100])('should take a constant number of round trips for %d attributes', async (count) => {
+    const fields = [...Array(count).keys()].map((i) => `field${i}`);
+    await applyCommands({
+      type: EntityCommandType.Update, nonce: '3', root: ROOT,
+      payload: { cmd: Object.fromEntries(fields.map((field) => [field, { add: [VALUE0, VALUE1] }])), type: TYPE },
+    });
+    const [countingStore, { calls }] = countStoreCalls(store);
+    const countingState = new DefaultEntityStore<MockId, V>(() => countingStore);
+    const event = await command.handle(countingState, {
+      type: EntityCommandType.Update, nonce: '5', root: ROOT,
+      payload: { cmd: Object.fromEntries(fields.map((field) => [field, { set: VALUE2, del: [VALUE0] }])), type: TYPE },
+    });
+    expect(calls).toEqual(['entriesMany']);
+    expect(event?.payload.ops).toHaveLength(count * 3);
+  });
+
   async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
     for (const cmd of cmds) {
       await projection.reduce(state, (await command.handle(state, cmd))!);
@@ -0,0 +1,147 @@
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { NotFoundError } from '@mithic/commons';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { DefaultEntityStore, ENTITY_KEY_ATTR, EntityStore } from '../../store.ts';
+import { ReadonlyOREntityCollection } from '../../view/index.ts';
+import { OREntityCommandHandler } from '../command.ts';
+import { DerivedEntityKeyProvider, EncryptedValue, EntityCipher, isEncryptedValue } from '../encryption.ts';
+import { OREntityProjection } from '../event.ts';
+import { EntityCommandType, EntityEvent } from '../interface.ts';
+import { EntityAttrKind } from '../schema.ts';
+import { EntityUndoManager } from '../undo.ts';
+
+type V = string | number | EncryptedValue;
+
+const TYPE = 'doc';
+const FIELD = 'title';
+const SCHEMAS = new Map([[TYPE, { attrs: { [FIELD]: { kind: EntityAttrKind.Single, type: 'string' as const } } }]]);
+
+describe(EntityCipher.name, () => {
+  let cipher: EntityCipher<V>;
+  let command: OREntityCommandHandler<MockId, V>;
+  let projection: OREntityProjection<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let collection: ReadonlyOREntityCollection<MockId, V>;
+  let root: MockId;
+
+  beforeAll(async () => {
+    const masterKey = await crypto.subtle.importKey(
+      'raw', crypto.getRandomValues(new Uint8Array(32)), 'HKDF', false, ['deriveKey']
+    );
+    cipher = new EntityCipher(new DerivedEntityKeyProvider(masterKey));
+    command = new OREntityCommandHandler(void 0, void 0, void 0, void 0, cipher);
+    projection = new OREntityProjection(getMockEventKey, void 0, SCHEMAS, void 0, void 0, void 0, cipher);
+  });
+
+  beforeEach(async () => {
+    state = new DefaultEntityStore(void 0, void 0, () => new MapTripleStore());
+    collection = new ReadonlyOREntityCollection(state, void 0, void 0, void 0, cipher);
+    const event = await createEvent('1', void 0, { set: 'a' });
+    root = getMockEventKey(event);
+    await projection.reduce(state, event);
+  });
+
+  it('should encrypt values and derive tags with the entity key', async () => {
+    const event = await createEvent('2', void 0, { set: 'a' });
+    const [[keyAttr, kid, keyValue], [attr, tag, value]] = event.payload.ops;
+    expect(keyAttr).toBe(ENTITY_KEY_ATTR);
+    expect(keyValue).toBe(kid);
+    expect(attr).toBe(FIELD);
+    expect(tag).not.toBe(JSON.stringify('a'));
+    expect(isEncryptedValue(value)).toBe(true);
+    expect((value as EncryptedValue).kid).toBe(kid);
+    expect(await cipher.decrypt(value!, attr, tag)).toBe('a');
+  });
+
+  it('should decrypt values transparently in collection', async () => {
+    expect(await collection.get(root, { type: TYPE })).toEqual({ [FIELD]: 'a' });
+    expect((await collection.getConflicts(root, FIELD, { type: TYPE })).map(([value]) => value)).toEqual(['a']);
+  });
+
+  it('should delete existing values by their keyed tags', async () => {
+    const event = await createEvent('3', root, { set: 'b' });
+    expect(event.payload.ops).toHaveLength(2);
+    expect(event.payload.ops).toContainEqual([FIELD, expect.any(String), null, 0]);
+    await projection.reduce(state, event);
+
+    expect(await collection.get(root, { type: TYPE })).toEqual({ [FIELD]: 'b' });
+    expect((await collection.getConflicts(root, FIELD, { type: TYPE })).map(([value]) => value)).toEqual(['b']);
+  });
+
+  it('should reject unencrypted values', async () => {
+    const event = await new OREntityCommandHandler<MockId, V>().handle(state, {
+      type: EntityCommandType.Update, root, nonce: '3', payload: { cmd: { [FIELD]: { set: 'b' } }, type: TYPE },
+    });
+    expect(await projection.validate(state, event!)).toEqual(new TypeError(`invalid encrypted value: "${FIELD}"`));
+  });
+
+  it('should reject tampered values', async () => {
+    const event = await createEvent('3', root, { set: 'b' });
+    const ops = event.payload.ops.map(([attr, tag, value, ...parents]) => {
+      if (!isEncryptedValue(value)) { return [attr, tag, value, ...parents] as const; }
+      const data = new Uint8Array(value.data);
+      data[0] ^= 1;
+      return [attr, tag, { ...value, data }, ...parents] as const;
+    });
+    expect(await projection.validate(state, { ...event, payload: { ...event.payload, ops } }))
+      .toEqual(new TypeError('invalid encrypted value'));
+  });
+
+  it('should reject values moved to another tag or attribute', async () => {
+    const event = await createEvent('3', void 0, { set: 'b' });
+    const [keyOp, [attr, tag, value]] = event.payload.ops;
+    for (const [movedAttr, movedTag] of [[attr, JSON.stringify('c')], ['other', tag]]) {
+      const moved = [keyOp, [movedAttr, movedTag, value] as const];
+      expect(await projection.validate(state, { ...event, payload: { ...event.payload, ops: moved } }))
+        .toEqual(new TypeError('invalid encrypted value'));
+    }
+  });
+
+  it('should decrypt values with tags resolved to event time', async () => {
+    const event = (await command.handle(state, {
+      type: EntityCommandType.Update, root, nonce: '3', payload: { cmd: { [FIELD]: { set: 'b', lww: true } }, type: TYPE },
+    }))!;
+    expect(await projection.validate(state, event)).toBeUndefined();
+    await projection.reduce(state, { ...event, time: 5 });
+    expect(await collection.get(root, { type: TYPE })).toEqual({ [FIELD]: 'b' });
+  });
+
+  it('should validate decrypted values against schema', async () => {
+    const event = await createEvent('3', root, { set: 1 });
+    expect(await projection.validate(state, event)).toEqual(new TypeError(`invalid operation: "${FIELD}"`));
+  });
+
+  it('should accept encrypted values without key', async () => {
+    const relay = new OREntityProjection<MockId, V>(
+      getMockEventKey, void 0, SCHEMAS, void 0, void 0, void 0, new EntityCipher({
+        getKey: () => void 0,
+        createKey: () => { throw new NotFoundError(); },
+      })
+    );
+    expect(await relay.validate(state, await createEvent('3', root, { set: 1 }))).toBeUndefined();
+  });
+
+  it('should restore encrypted values of deleted entity on undo', async () => {
+    const manager = new EntityUndoManager<MockId, V>(command, getMockEventKey, void 0, () => '5');
+    const event = (await manager.handle(state, {
+      type: EntityCommandType.Delete, root, nonce: '3', payload: { cmd: {}, type: TYPE },
+    }))!;
+    await manager.record(state, event);
+    await projection.reduce(state, event);
+    expect(await collection.get(root, { type: TYPE })).toBeUndefined();
+
+    const undoEvent = (await manager.handle(state, manager.undo()!))!;
+    expect(await projection.validate(state, undoEvent)).toBeUndefined();
+    await projection.reduce(state, undoEvent);
+    expect(await collection.get(root, { type: TYPE })).toEqual({ [FIELD]: 'a' });
+  });
+
+  async function createEvent(
+    nonce: string, root: MockId | undefined, cmd: { set: V }
+  ): Promise<EntityEvent<MockId, V>> {
+    return (await command.handle(state, {
+      type: EntityCommandType.Update, root, nonce, payload: { cmd: { [FIELD]: cmd }, type: TYPE },
+    }))!;
+  }
+});
@@ -1,10 +1,13 @@
 import { beforeEach, describe, expect, it } from '@jest/globals';
 import { BTreeMap, EntityAttrKey, MapTripleStore } from '@mithic/collections';
 import { ERR_DEPENDENCY_MISSING, OperationError } from '@mithic/commons';
-import { DefaultEntityStore, EntityStore } from '../../store.ts';
-import { EntityEventType, EntityProjection, EntityEvent } from '../interface.ts';
+import { SimpleMessageBus } from '@mithic/messaging';
+import { DefaultEntityStore, ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, EntityStore } from '../../store.ts';
+import { EntityChangeSet, EntityEventType, EntityProjection, EntityEvent } from '../interface.ts';
+import { EntityAttrKind } from '../schema.ts';
 import { OREntityProjection } from '../event.ts';
 import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { EVENT_TIME_TAG, encodeEventTime } from '../../utils/index.ts';
 
 type V = string | number | boolean;
 
@@ -86,6 +89,50 @@ describe(OREntityProjection.name, () => {
         payload: { ops: [['field', `true`, true, 0]] },
         link: [], root: ROOT,
       })).toEqual(new TypeError(`invalid operation: "field"`));
+
+      expect(await projection.validate(state, {
+        type: EntityEventType.Delete,
+        payload: { ops: [['field', `true`, true]] },
+        link: [], root: ROOT,
+      })).toEqual(new TypeError(`invalid operation: "field"`));
+    });
+
+    it('should return error for operations on reserved attributes', async () => {
+      expect(await projection.validate(state, {
+        type: EntityEventType.Update,
+        payload: { ops: [[ENTITY_TOMBSTONE_ATTR, '', true]] },
+        link: [], root: ROOT,
+      })).toBeUndefined(); // restore of tombstone
+      expect(await projection.validate(state, {
+        type: EntityEventType.New,
+        payload: { ops: [[ENTITY_TOMBSTONE_ATTR, '', true]] },
+      })).toEqual(new TypeError(`invalid operation: "${ENTITY_TOMBSTONE_ATTR}"`));
+      expect(await projection.validate(state, {
+        type: EntityEventType.Update,
+        payload: { ops: [[ENTITY_TOMBSTONE_ATTR, 'x', VALUE0]] },
+        link: [], root: ROOT,
+      })).toEqual(new TypeError(`invalid operation: "${ENTITY_TOMBSTONE_ATTR}"`));
+      expect(await projection.validate(state, {
+        type: EntityEventType.Update,
+        payload: { ops: [[ENTITY_KEY_ATTR, 'kid', 'kid']] },
+        link: [], root: ROOT,
+      })).toEqual(new TypeError(`invalid operation: "${ENTITY_KEY_ATTR}"`));
+      expect(await projection.validate(state, {
+        type: EntityEventType.Delete,
+        payload: { ops: [[ENTITY_KEY_ATTR, 'kid', null, 0]] },
+        link: [getMockEventKey(EVENT_NEW)], root: ROOT,
+      })).toEqual(new TypeError(`invalid operation: "${ENTITY_KEY_ATTR}"`));
+    });
+
+    it('should return error for events not conforming to schema', async () => {
+      projection = new OREntityProjection(getMockEventKey, void 0, new Map([
+        [TYPE, { attrs: { [FIELD0]: { kind: EntityAttrKind.Single, type: 'string' } } }],
+      ]));
+      expect(await projection.validate(state, EVENT_NEW)).toBeUndefined();
+      expect(await projection.validate(state, EVENT_UPDATE)).toEqual(new TypeError(`unknown attribute: "${FIELD1}"`));
+      expect(await projection.validate(state, {
+        ...EVENT_NEW, payload: { ops: [[FIELD0, `${VALUE2}`, VALUE2]], type: TYPE },
+      })).toEqual(new TypeError(`invalid operation: "${FIELD0}"`));
     });
 
     it('should return error for missing dependent events', async () => {
@@ -129,6 +176,58 @@ describe(OREntityProjection.name, () => {
       expect(dataMap.get([ROOT, FIELD2, `${VALUE2}`, event2Key])).toEqual(VALUE4);
     });
 
+    it('should delete triples and add tombstone for delete event', async () => {
+      const event = {
+        type: EntityEventType.Delete, nonce: '7', root: ROOT,
+        payload: { ops: [[FIELD1, `${VALUE1}`, null, 0], [FIELD2, `${VALUE2}`, null, 0]], type: TYPE },
+        link: [getMockEventKey(EVENT_UPDATE)],
+      } satisfies EntityEvent<MockId, V>;
+      await applyEvents(EVENT_NEW, EVENT_UPDATE, event);
+
+      expect([...dataMap.keys()]).toEqual([
+        [ROOT, ENTITY_TOMBSTONE_ATTR, '', getMockEventKey(event)],
+        [ROOT, FIELD0, `${VALUE0}`, getMockEventKey(EVENT_NEW)],
+      ]);
+    });
+
+    it('should substitute time tags with event time', async () => {
+      const event = {
+        type: EntityEventType.Update, nonce: '3', root: ROOT, time: 123,
+        payload: { ops: [[FIELD1, EVENT_TIME_TAG, VALUE1]], type: TYPE }
+      } satisfies EntityEvent<MockId, V>;
+      await applyEvents(EVENT_NEW, event);
+
+      expect(dataMap.get([ROOT, FIELD1, encodeEventTime(123), getMockEventKey(event)])).toEqual(VALUE1);
+    });
+
+    it('should dispatch change set of reduced events', async () => {
+      const changes: EntityChangeSet<MockId, V>[] = [];
+      const bus = new SimpleMessageBus<EntityChangeSet<MockId, V>>();
+      bus.subscribe((changeSet) => { changes.push(changeSet); });
+      projection = new OREntityProjection(getMockEventKey, void 0, void 0, bus);
+      await applyEvents(EVENT_NEW, EVENT_UPDATE, EVENT_UPDEL, EVENT_UPDEL);
+
+      expect(changes).toEqual([
+        { txId: ROOT, id: ROOT, type: TYPE, attrs: [{ attr: FIELD0, added: [[`${VALUE0}`, VALUE0]], removed: [] }] },
+        {
+          txId: getMockEventKey(EVENT_UPDATE), id: ROOT, type: TYPE, attrs: [
+            { attr: FIELD1, added: [[`${VALUE1}`, VALUE1]], removed: [] },
+            { attr: FIELD2, added: [[`${VALUE2}`, VALUE2]], removed: [] },
+          ],
+        },
+        {
+          txId: getMockEventKey(EVENT_UPDEL), id: ROOT, type: TYPE, attrs: [
+            { attr: FIELD0, added: [], removed: [[`${VALUE0}`, VALUE0, ROOT]] },
+            { attr: FIELD1, added: [[`${VALUE3}`, VALUE3]], removed: [] },
+            {
+              attr: FIELD2, added: [[`${VALUE2}`, VALUE4]],
+              removed: [[`${VALUE2}`, VALUE2, getMockEventKey(EVENT_UPDATE)]],
+            },
+          ],
+        },
+      ] satisfies EntityChangeSet<MockId, V>[]);
+    });
+
     it('should throw error for malformed events', async () => {
       await expect(projection.reduce(state, {
         type: EntityEventType.Update,
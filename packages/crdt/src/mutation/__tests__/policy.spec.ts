@@ -0,0 +1,135 @@
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { ERR_DEPENDENCY_MISSING } from '@mithic/commons';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+import { OREntityCommandHandler } from '../command.ts';
+import { OREntityProjection } from '../event.ts';
+import { EntityCommand, EntityCommandType, EntityEvent, EntityEventType } from '../interface.ts';
+import { EntityAclPolicy } from '../policy.ts';
+import { EntityEventSigner, EntityEventVerifier, getEntityEventAuthor } from '../signature.ts';
+
+type V = string;
+
+const TYPE = 'doc';
+const ROOT = new MockId(new Uint8Array(1));
+const ACL = 'acl';
+const FIELD = 'title';
+
+describe(EntityAclPolicy.name, () => {
+  let alice: EntityEventSigner;
+  let bob: EntityEventSigner;
+  let aliceId: string;
+  let bobId: string;
+  let state: EntityStore<MockId, V>;
+  const policy = new EntityAclPolicy<MockId, V>(void 0, void 0, getMockEventKey);
+  const command = new OREntityCommandHandler<MockId, V>(void 0, void 0, void 0, void 0, void 0, getMockEventKey);
+  const projection = new OREntityProjection<MockId, V>(
+    getMockEventKey, void 0, void 0, void 0, new EntityEventVerifier(true), new Map([[TYPE, policy]])
+  );
+
+  beforeAll(async () => {
+    alice = new EntityEventSigner(await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair);
+    bob = new EntityEventSigner(await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair);
+    const event = { type: EntityEventType.Update, root: ROOT, payload: { ops: [] } } satisfies EntityEvent<MockId, V>;
+    aliceId = getEntityEventAuthor(await alice.sign(event))!;
+    bobId = getEntityEventAuthor(await bob.sign(event))!;
+  });
+
+  beforeEach(async () => {
+    state = new DefaultEntityStore(void 0, void 0, () => new MapTripleStore());
+    const event = await alice.sign((await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '1', payload: { cmd: { [ACL]: { add: [aliceId] }, [FIELD]: { set: 'a' } }, type: TYPE },
+    }))!);
+    await reduce(event);
+  });
+
+  it('should authorize events from authors in the access control list', async () => {
+    const event = await prepare(alice, aliceId, '3', { [FIELD]: { set: 'b' } });
+    expect(event.link).toContainEqual(ROOT);
+    expect(await projection.validate(state, event)).toBeUndefined();
+  });
+
+  it('should reject events from authors not in the access control list', async () => {
+    expect(await projection.validate(state, await prepare(bob, bobId, '3', { [FIELD]: { set: 'b' } })))
+      .toEqual(new TypeError('unauthorized'));
+  });
+
+  it('should reject events not linked to a grant', async () => {
+    expect(await projection.validate(state, await alice.sign(await createEvent('3', { body: { set: 'b' } }))))
+      .toEqual(new TypeError('unauthorized'));
+  });
+
+  it('should authorize events linked to grants revoked concurrently only until the revocation is applied', async () => {
+    await reduce(await prepare(alice, aliceId, '3', { [ACL]: { add: [bobId] } }));
+    const event = await prepare(bob, bobId, '5', { [FIELD]: { set: 'b' } });
+    const revocation = await prepare(alice, aliceId, '7', { [ACL]: { del: [bobId] } });
+    expect(await projection.validate(state, event)).toBeUndefined();
+
+    await reduce(revocation);
+    expect(await projection.validate(state, event)).toEqual(new TypeError('unauthorized'));
+    expect(await projection.validate(state, await prepare(bob, bobId, '9', { [FIELD]: { set: 'c' } })))
+      .toEqual(new TypeError('unauthorized'));
+  });
+
+  it('should authorize events linked to grants that are revoked and granted again', async () => {
+    await reduce(await prepare(alice, aliceId, '3', { [ACL]: { add: [bobId] } }));
+    await reduce(await prepare(alice, aliceId, '5', { [ACL]: { del: [bobId] } }));
+    await reduce(await prepare(alice, aliceId, '7', { [ACL]: { add: [bobId] } }));
+    expect(await projection.validate(state, await prepare(bob, bobId, '9', { [FIELD]: { set: 'b' } })))
+      .toBeUndefined();
+  });
+
+  it('should reject events linked to grants revoked in their causal past', async () => {
+    await reduce(await prepare(alice, aliceId, '3', { [ACL]: { add: [bobId] } }));
+    await reduce(await prepare(alice, aliceId, '5', { [ACL]: { del: [bobId] }, [FIELD]: { set: 'b' } }));
+    const event = await createEvent('7', { [FIELD]: { set: 'c' } });
+    expect(event.link).toContainEqual(new MockId(new Uint8Array(5)));
+
+    const staleGrantTxId = new MockId(new Uint8Array(3));
+    expect(await projection.validate(state, await bob.sign({ ...event, link: [...event.link!, staleGrantTxId] })))
+      .toEqual(new TypeError('unauthorized'));
+  });
+
+  it('should reject events with missing dependencies', async () => {
+    const event = await createEvent('3', { [FIELD]: { set: 'b' } });
+    expect(await projection.validate(state, await alice.sign({ ...event, link: [new MockId(new Uint8Array(9))] })))
+      .toMatchObject({ code: ERR_DEPENDENCY_MISSING });
+  });
+
+  it('should require a verifier', () => {
+    expect(() => new OREntityProjection<MockId, V>(getMockEventKey, void 0, void 0, void 0, void 0, new Map([[TYPE, policy]])))
+      .toThrow(new TypeError('verifier is required for policies'));
+  });
+
+  it('should link grants of all existing entities in a transaction', async () => {
+    const tx = (await command.handle(state, {
+      type: EntityCommandType.Tx, nonce: '3', payload: {
+        cmd: {},
+        tx: [
+          { type: EntityCommandType.Update, payload: { cmd: { [ACL]: { add: [aliceId] } }, type: TYPE } },
+          { type: EntityCommandType.Update, root: ROOT, payload: { cmd: { [FIELD]: { set: 'b' } }, type: TYPE } },
+        ],
+      },
+    }))!;
+    const event = await alice.sign(await policy.link(state, tx, aliceId));
+    expect(event.link).toContainEqual(ROOT);
+    expect(await projection.validate(state, event)).toBeUndefined();
+    expect(await projection.validate(state, await bob.sign(await policy.link(state, tx, bobId))))
+      .toEqual(new TypeError('unauthorized'));
+  });
+
+  async function reduce(event: EntityEvent<MockId, V>) {
+    await projection.reduce(state, event);
+  }
+
+  async function createEvent(nonce: string, cmd: EntityCommand<MockId, V>['payload']['cmd']) {
+    return (await command.handle(state, { type: EntityCommandType.Update, nonce, root: ROOT, payload: { cmd, type: TYPE } }))!;
+  }
+
+  async function prepare(
+    signer: EntityEventSigner, author: string, nonce: string, cmd: EntityCommand<MockId, V>['payload']['cmd']
+  ): Promise<EntityEvent<MockId, V>> {
+    return signer.sign(await policy.link(state, await createEvent(nonce, cmd), author));
+  }
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { ENTITY_TOMBSTONE_ATTR } from '../../store.ts';
+import { markAttr } from '../../utils/index.ts';
+import { EntityAttrCommand, EntityEventOp } from '../interface.ts';
+import { EntityAttrKind, EntitySchema, validateEntityAttrCommands, validateEntityEventOps } from '../schema.ts';
+
+type V = string | number | boolean;
+
+const SCHEMA = {
+  attrs: {
+    name: { kind: EntityAttrKind.Single, type: 'string' },
+    tags: { kind: EntityAttrKind.Set, type: 'string', validate: (value) => `${value}`.length <= 3 },
+    items: { kind: EntityAttrKind.List, type: 'number' },
+    count: { kind: EntityAttrKind.Counter },
+    body: { kind: EntityAttrKind.Text },
+  },
+} satisfies EntitySchema<V>;
+
+describe(validateEntityAttrCommands.name, () => {
+  it.each([
+    [{ name: { set: 'a', lww: true } }],
+    [{ name: { del: true }, tags: { add: ['a'], del: ['b'] } }],
+    [{ items: { splice: ['', 1, 1, 2], mark: ['a', 'b', 'bold'] } }],
+    [{ count: { inc: 1 }, body: { text: ['', 0, 'abc'] } }],
+    [{ [ENTITY_TOMBSTONE_ATTR]: { revert: [['', '1']] } }],
+  ] satisfies [Record<string, EntityAttrCommand<V>>][])('should return no error for valid commands %#', (cmds) => {
+    expect(validateEntityAttrCommands(SCHEMA, cmds)).toBeUndefined();
+  });
+
+  it.each([
+    [{ unknown: { set: 'a' } }, new TypeError('unknown attribute: "unknown"')],
+    [{ name: { add: ['a'] } }, new TypeError('invalid command for single attribute: "name"')],
+    [{ count: { set: 1 } }, new TypeError('invalid command for counter attribute: "count"')],
+    [{ name: { set: 1 } }, new TypeError('invalid value for attribute: "name"')],
+    [{ tags: { add: ['abcd'] } }, new TypeError('invalid value for attribute: "tags"')],
+    [{ items: { splice: ['', 0, 1, '2'] } }, new TypeError('invalid value for attribute: "items"')],
+  ] satisfies [Record<string, EntityAttrCommand<V>>, Error][])(
+    'should return error for invalid commands %#', (cmds, error) => {
+      expect(validateEntityAttrCommands(SCHEMA, cmds)).toEqual(error);
+    }
+  );
+
+  it('should allow unknown attributes for open schema', () => {
+    expect(validateEntityAttrCommands({ ...SCHEMA, open: true }, { unknown: { set: 'a' } })).toBeUndefined();
+  });
+});
+
+describe(validateEntityEventOps.name, () => {
+  it.each([
+    [[['body', 'a', 'abc'], ['body', 'a!10', 2], ['count', 'r', 5], ['name', 'a', null, 0], ['name', 'b', 'b']]],
+    [[['items', 'a', 1], ['items', 'b', 2], [markAttr('items'), 'a,b,bold@', true]]],
+    [[['tags', '"a"', 'a'], ['tags', '"b"', 'b']]],
+  ] satisfies [EntityEventOp<V>[]][])('should return no error for valid operations %#', (ops) => {
+    expect(validateEntityEventOps(SCHEMA, ops)).toBeUndefined();
+  });
+
+  it.each([
+    [[['unknown', 'a', 'a']], new TypeError('unknown attribute: "unknown"')],
+    [[[markAttr('name'), 'a', true]], new TypeError('unknown attribute: "name$mark"')],
+    [[['name', 'a', 1]], new TypeError('invalid operation: "name"')],
+    [[['name', 'a', 'a'], ['name', 'b', 'b']], new TypeError('invalid operation: "name"')],
+    [[['count', 'r', '1']], new TypeError('invalid operation: "count"')],
+    [[['body', 'a', true]], new TypeError('invalid operation: "body"')],
+  ] satisfies [EntityEventOp<V>[], Error][])('should return error for invalid operations %#', (ops, error) => {
+    expect(validateEntityEventOps(SCHEMA, ops)).toEqual(error);
+  });
+});
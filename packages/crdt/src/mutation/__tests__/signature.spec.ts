@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { BTreeMap, compareMultiKeys } from '@mithic/collections';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { DefaultEntityStore } from '../../store.ts';
+import { ReadonlyOREntityCollection } from '../../view/index.ts';
+import { OREntityProjection } from '../event.ts';
+import { EntityEvent, EntityEventType } from '../interface.ts';
+import { EntityEventSigner, EntityEventVerifier, getEntityEventAuthor } from '../signature.ts';
+
+type V = string | number;
+
+const TYPE = 'signed';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD = 'field';
+
+const EVENT = {
+  type: EntityEventType.Update, nonce: '3', root: ROOT,
+  payload: { ops: [[FIELD, '"v1"', 'v1']], type: TYPE },
+} satisfies EntityEvent<MockId, V>;
+
+describe(EntityEventSigner.name, () => {
+  let ed25519: CryptoKeyPair;
+  let ecdsa: CryptoKeyPair;
+
+  beforeAll(async () => {
+    ed25519 = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    ecdsa = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  });
+
+  it.each([
+    ['Ed25519', () => ed25519],
+    ['ECDSA-P256', () => ecdsa],
+  ])('should sign events verifiable with %s keys', async (alg, getKeyPair) => {
+    const signed = await new EntityEventSigner(getKeyPair()).sign(EVENT);
+    expect(signed.sig?.alg).toBe(alg);
+    expect(await new EntityEventVerifier().verify(signed)).toBeUndefined();
+  });
+
+  it('should reject tampered events', async () => {
+    const signed = await new EntityEventSigner(ed25519).sign(EVENT);
+    expect(await new EntityEventVerifier().verify({ ...signed, nonce: '5' }))
+      .toEqual(new TypeError('invalid signature'));
+    expect(await new EntityEventVerifier().verify({ ...signed, sig: { ...signed.sig!, key: new Uint8Array(32) } }))
+      .toEqual(new TypeError('invalid signature'));
+  });
+
+  it('should reject unsigned events only if signature is required', async () => {
+    expect(await new EntityEventVerifier().verify(EVENT)).toBeUndefined();
+    expect(await new EntityEventVerifier(true).verify(EVENT)).toEqual(new TypeError('missing signature'));
+  });
+
+  it('should return base64url-encoded public key as author', async () => {
+    const signed = await new EntityEventSigner(ed25519).sign(EVENT);
+    const key = new Uint8Array(await crypto.subtle.exportKey('raw', ed25519.publicKey));
+    expect(getEntityEventAuthor(signed)).toBe(Buffer.from(key).toString('base64url'));
+    expect(getEntityEventAuthor(EVENT)).toBeUndefined();
+  });
+
+  describe(OREntityProjection.name, () => {
+    it('should verify signatures and track authors of triples', async () => {
+      const state = new DefaultEntityStore<MockId, V>(
+        void 0, void 0, void 0, new BTreeMap<MockId, string>(5, compareMultiKeys)
+      );
+      const projection = new OREntityProjection<MockId, V>(
+        getMockEventKey, void 0, void 0, void 0, new EntityEventVerifier(true)
+      );
+      const signed = await new EntityEventSigner(ed25519).sign(EVENT);
+
+      expect(await projection.validate(state, EVENT)).toEqual(new TypeError('missing signature'));
+      expect(await projection.validate(state, { ...signed, nonce: '5' })).toEqual(new TypeError('invalid signature'));
+
+      await projection.reduce(state, signed);
+      expect(await new ReadonlyOREntityCollection<MockId, V>(state).getAuthors(ROOT, FIELD, { type: TYPE }))
+        .toEqual([['v1', getEntityEventAuthor(signed)]]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { ContentId } from '@mithic/commons';
+import { getCID } from '../../defaults.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+import { EVENT_TIME_TAG } from '../../utils/index.ts';
+import { ReadonlyOREntityCollection } from '../../view/index.ts';
+import { OREntityCommandHandler } from '../command.ts';
+import { OREntityProjection } from '../event.ts';
+import { EntityCommandType, EntityEvent, EntityEventType } from '../interface.ts';
+import { EntityAttrKind } from '../schema.ts';
+import { getEntityTxRoots, splitEntityEvent } from '../tx.ts';
+import { EntityUndoManager } from '../undo.ts';
+
+type V = string | number | ContentId;
+
+const ORDER = 'order';
+const ITEM = 'item';
+const SCHEMAS = new Map([[ITEM, { attrs: { qty: { kind: EntityAttrKind.Single, type: 'number' as const } }, open: true }]]);
+
+describe('entity transactions', () => {
+  let state: EntityStore<ContentId, V>;
+  let command: OREntityCommandHandler<ContentId, V>;
+  let projection: OREntityProjection<ContentId, V>;
+  let collection: ReadonlyOREntityCollection<ContentId, V>;
+  let customer: ContentId;
+
+  beforeEach(async () => {
+    const stores = new Map<string | undefined, MapTripleStore<ContentId, V>>();
+    state = new DefaultEntityStore((type) => {
+      let store = stores.get(type);
+      if (!store) { stores.set(type, store = new MapTripleStore()); }
+      return store;
+    });
+    command = new OREntityCommandHandler<ContentId, V>(void 0, void 0, void 0, void 0, void 0, getCID);
+    projection = new OREntityProjection<ContentId, V>(getCID, void 0, SCHEMAS);
+    collection = new ReadonlyOREntityCollection(state);
+
+    const event = (await command.handle(state, {
+      type: EntityCommandType.Update, nonce: '1', payload: { cmd: { name: { set: 'alice' } } },
+    }))!;
+    await projection.reduce(state, event);
+    customer = await getCID(event);
+  });
+
+  it('should create entities referencing each other in a single event', async () => {
+    const event = (await command.handle(state, createOrderCommand()))!;
+    expect(event.type).toBe(EntityEventType.Tx);
+    expect(event.payload.tx).toHaveLength(4);
+    const [order, item1, item2] = await getEntityTxRoots(event, getCID);
+    expect(event.payload.tx?.map(({ root }) => `${root}`)).toEqual([order, item1, item2, customer].map((id) => `${id}`));
+
+    await projection.reduce(state, event);
+
+    expect(await collection.get(order, { type: ORDER })).toEqual({ total: 3, first: item1 });
+    expect(await collection.get(item1, { type: ITEM })).toEqual({ qty: 1, order });
+    expect(await collection.get(item2, { type: ITEM })).toEqual({ qty: 2, order });
+    expect(await collection.get(customer)).toEqual({ name: 'alice', lastOrder: order });
+  });
+
+  it('should write entities of the same type in one batch', async () => {
+    const updateMany = jest.spyOn(state.store(ITEM), 'updateMany');
+    await projection.reduce(state, (await command.handle(state, createOrderCommand()))!);
+    expect(updateMany).toHaveBeenCalledTimes(1);
+    expect(updateMany.mock.calls[0][0]).toHaveLength(4); // quantity and order reference of 2 items
+  });
+
+  it('should query an attribute of multiple entities in a transaction', async () => {
+    const event = (await command.handle(state, {
+      type: EntityCommandType.Tx, nonce: '2', payload: {
+        cmd: {},
+        tx: [
+          { type: EntityCommandType.Update, payload: { cmd: { status: { set: 'open' } }, type: ORDER } },
+          { type: EntityCommandType.Update, payload: { cmd: { status: { set: 'open' } }, type: ORDER } },
+        ],
+      },
+    }))!;
+    await projection.reduce(state, event);
+
+    const orders = await getEntityTxRoots(event, getCID);
+    const results = [];
+    for await (const id of collection.keysByAttr({
+      type: ORDER, by: 'status', lower: 'open', upper: 'open', upperOpen: false,
+    })) {
+      results.push(`${id}`);
+    }
+    expect(results.sort()).toEqual(orders.map((id) => `${id}`).sort());
+  });
+
+  it('should replace existing values of references', async () => {
+    await projection.reduce(state, (await command.handle(state, createOrderCommand('2')))!);
+    const event = (await command.handle(state, createOrderCommand('3')))!;
+    const [order] = await getEntityTxRoots(event, getCID);
+    expect(event.payload.tx?.[3].payload.ops).toEqual([
+      ['lastOrder', expect.any(String), null, 0],
+      ['lastOrder', EVENT_TIME_TAG, order],
+    ]);
+
+    await projection.reduce(state, event);
+    expect((await collection.getConflicts(customer, 'lastOrder')).map(([value]) => `${value}`)).toEqual([`${order}`]);
+  });
+
+  it('should not apply any entity of an invalid transaction', async () => {
+    const event = (await command.handle(state, {
+      type: EntityCommandType.Tx, nonce: '2', payload: {
+        cmd: {},
+        tx: [
+          { type: EntityCommandType.Update, root: customer, payload: { cmd: { name: { set: 'bob' } } } },
+          { type: EntityCommandType.Update, payload: { cmd: { qty: { set: 'many' } }, type: ITEM } },
+        ],
+      },
+    }))!;
+
+    await expect(projection.reduce(state, event)).rejects.toEqual(new TypeError('invalid operation: "qty"'));
+    expect(await collection.get(customer)).toEqual({ name: 'alice' });
+  });
+
+  it('should reject transactions with forged entity Ids', async () => {
+    const event = (await command.handle(state, createOrderCommand()))!;
+    const tx = event.payload.tx!;
+    const forged = { ...event, payload: { ...event.payload, tx: [{ ...tx[0], root: customer }, ...tx.slice(1)] } };
+    expect(await projection.validate(state, forged)).toEqual(new TypeError('invalid root'));
+  });
+
+  it('should reject references to existing entities', async () => {
+    const event = (await command.handle(state, createOrderCommand()))!;
+    const tx = event.payload.tx!;
+    const forged = {
+      ...event,
+      payload: {
+        ...event.payload,
+        tx: [...tx.slice(0, 3), { ...tx[3], payload: { ops: [['lastOrder', EVENT_TIME_TAG, customer]] } }],
+      },
+    } as EntityEvent<ContentId, V>;
+    expect(await projection.validate(state, forged)).toEqual(new TypeError('invalid reference: "lastOrder"'));
+  });
+
+  it('should reject transactions with operations of their own', async () => {
+    const event = (await command.handle(state, createOrderCommand()))!;
+    expect(await projection.validate(state, { ...event, payload: { ...event.payload, ops: [['a', 'b', 'c']] } }))
+      .toEqual(new TypeError('invalid transaction'));
+  });
+
+  it('should throw on references to entities not created by the transaction', async () => {
+    await expect(command.handle(state, {
+      type: EntityCommandType.Tx, payload: {
+        cmd: {},
+        tx: [{ type: EntityCommandType.Update, root: customer, payload: { cmd: {} }, refs: { lastOrder: 0 } }],
+      },
+    })).rejects.toEqual(new TypeError('invalid reference: "lastOrder"'));
+  });
+
+  it('should split transaction into events on each entity', async () => {
+    const event = (await command.handle(state, createOrderCommand()))!;
+    const eventKey = await getCID(event);
+    const entities = splitEntityEvent(event, eventKey);
+    expect(entities.map(([root]) => `${root}`)).toEqual(event.payload.tx?.map(({ root }) => `${root}`));
+    expect(entities.map(([, { type }]) => type))
+      .toEqual([EntityEventType.New, EntityEventType.New, EntityEventType.New, EntityEventType.Update]);
+  });
+
+  it('should undo all entities of a transaction together', async () => {
+    const undo = new EntityUndoManager<ContentId, V>(command, getCID);
+    const event = (await undo.handle(state, createOrderCommand()))!;
+    const [order, item1] = await getEntityTxRoots(event, getCID);
+    await undo.record(state, event);
+    await projection.reduce(state, event);
+
+    const undoCommand = undo.undo()!;
+    expect(undoCommand.type).toBe(EntityCommandType.Tx);
+    const undoEvent = (await undo.handle(state, undoCommand))!;
+    await undo.record(state, undoEvent);
+    await projection.reduce(state, undoEvent);
+
+    expect(await collection.get(order, { type: ORDER })).toBeUndefined();
+    expect(await collection.get(item1, { type: ITEM })).toBeUndefined();
+    expect(await collection.get(customer)).toEqual({ name: 'alice' });
+  });
+
+  function createOrderCommand(nonce = '2') {
+    return {
+      type: EntityCommandType.Tx, nonce, payload: {
+        cmd: {},
+        tx: [
+          { type: EntityCommandType.Update, payload: { cmd: { total: { set: 3 } }, type: ORDER }, refs: { first: 1 } },
+          { type: EntityCommandType.Update, payload: { cmd: { qty: { set: 1 } }, type: ITEM }, refs: { order: 0 } },
+          { type: EntityCommandType.Update, payload: { cmd: { qty: { set: 2 } }, type: ITEM }, refs: { order: 0 } },
+          { type: EntityCommandType.Update, root: customer, payload: { cmd: {} }, refs: { lastOrder: 0 } },
+        ],
+      },
+    } as const;
+  }
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+import { ReadonlyORMap, ReadonlyOREntityCollection } from '../../view/index.ts';
+import { OREntityCommandHandler } from '../command.ts';
+import { OREntityProjection } from '../event.ts';
+import {
+  EntityCommand, EntityCommandHandler, EntityCommandType, EntityEvent, EntityProjection
+} from '../interface.ts';
+import { EntityEventSigner } from '../signature.ts';
+import { EntityUndoManager } from '../undo.ts';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { collect, updateCommand } from '../../__tests__/utils.ts';
+
+type V = string | number;
+
+const TYPE = 'undo';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD1 = 'field1';
+const FIELD2 = 'field2';
+
+describe(EntityUndoManager.name, () => {
+  let store: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let command: EntityCommandHandler<MockId, V>;
+  let projection: EntityProjection<MockId, V>;
+  let manager: EntityUndoManager<MockId, V>;
+  let map: ReadonlyORMap<V, MockId>;
+  let nonce: number;
+
+  beforeEach(() => {
+    store = new MapTripleStore();
+    state = new DefaultEntityStore<MockId, V>((type) => {
+      expect(type).toBe(TYPE);
+      return store;
+    });
+    command = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica0');
+    projection = new OREntityProjection(getMockEventKey);
+    nonce = 100;
+    manager = new EntityUndoManager(command, getMockEventKey, 2, () => `${++nonce}`);
+    map = new ReadonlyORMap(store, ROOT);
+  });
+
+  it('should undo and redo changes', async () => {
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' } }));
+    await applyCommands(updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' }, [FIELD2]: { inc: 2 } }));
+    expect(manager.canUndo).toBe(true);
+    expect(manager.canRedo).toBe(false);
+
+    await applyCommands(manager.undo()!);
+    expect(await collect(map)).toEqual([[FIELD1, 'a']]);
+    expect(manager.canRedo).toBe(true);
+
+    await applyCommands(manager.redo()!);
+    expect(await collect(map)).toEqual([[FIELD1, 'b'], [FIELD2, 2]]);
+    expect(manager.canRedo).toBe(false);
+
+    await applyCommands(manager.undo()!);
+    await applyCommands(manager.undo()!);
+    expect(await collect(map)).toEqual([]);
+    expect(manager.canUndo).toBe(false);
+    expect(manager.undo()).toBeUndefined();
+  });
+
+  it('should not revert concurrent changes of other replicas', async () => {
+    const concurrentEvent =
+      await command.handle(state, updateCommand('7', ROOT, TYPE, { [FIELD1]: { add: ['x', 'y'] } }));
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { add: ['x'] } }));
+    await projection.reduce(state, concurrentEvent!);
+
+    await applyCommands(manager.undo()!);
+    expect((await map.getConflicts(FIELD1)).map(([value]) => value)).toEqual(['x', 'y']);
+    expect(await map.getConflicts(FIELD1)).toEqual([['x', getMockEventKey(concurrentEvent!)], ['y', expect.anything()]]);
+  });
+
+  it('should undo entity deletion', async () => {
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' } }));
+    await applyCommands({ type: EntityCommandType.Delete, nonce: '5', root: ROOT, payload: { cmd: {}, type: TYPE } });
+    const view = new ReadonlyOREntityCollection(state);
+    expect(await view.get(ROOT, { type: TYPE })).toBeUndefined();
+
+    await applyCommands(manager.undo()!);
+    expect(await view.get(ROOT, { type: TYPE })).toEqual({ [FIELD1]: 'a' });
+  });
+
+  it('should record inverses of events as stored', async () => {
+    const signer = new EntityEventSigner(
+      await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair);
+    const getEventKey = (event: EntityEvent<MockId, V>) =>
+      new MockId(new Uint8Array([parseInt(event.nonce || '0'), event.time || 0, event.sig ? 1 : 0]));
+    projection = new OREntityProjection(getEventKey);
+    manager = new EntityUndoManager(command, getEventKey, 2, () => `${++nonce}`);
+
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' } }));
+    const event = (await manager.handle(state, updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } })))!;
+    const stored = await signer.sign({ ...event, time: 9 });
+    await manager.record(state, stored);
+    await projection.reduce(state, stored);
+    expect(await collect(map)).toEqual([[FIELD1, 'b']]);
+
+    await applyCommands(manager.undo()!);
+    expect(await map.getConflicts(FIELD1)).toEqual([['a', expect.anything()]]);
+  });
+
+  it('should clear redo history on new command', async () => {
+    await applyCommands(updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' } }));
+    await applyCommands(manager.undo()!);
+    await applyCommands(updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } }));
+    expect(manager.canRedo).toBe(false);
+  });
+
+  it('should keep up to given number of undo steps', async () => {
+    await applyCommands(
+      updateCommand('3', ROOT, TYPE, { [FIELD1]: { set: 'a' } }),
+      updateCommand('5', ROOT, TYPE, { [FIELD1]: { set: 'b' } }),
+      updateCommand('7', ROOT, TYPE, { [FIELD1]: { set: 'c' } }),
+    );
+    await applyCommands(manager.undo()!);
+    await applyCommands(manager.undo()!);
+    expect(await collect(map)).toEqual([[FIELD1, 'a']]);
+    expect(manager.canUndo).toBe(false);
+  });
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      const event = (await manager.handle(state, cmd))!;
+      await manager.record(state, event);
+      await projection.reduce(state, event);
+    }
+  }
+});
@@ -1,11 +1,26 @@
-import { EntityAttrSearchKey, ReadonlyTripleStore } from '@mithic/collections';
-import { AbortOptions, ContentId, MaybePromise, ToString } from '@mithic/commons';
-import { defaultStringify } from '../defaults.ts';
-import { ReadonlyEntityStore } from '../store.ts';
-import { FractionalIndexGenerator, IndexGenerator } from '../utils/index.ts';
 import {
-  EntityAttrCommand, EntityCommand, EntityCommandHandler, EntityEvent, EntityEventOp, EntityEventType
+  EntityAttrKey, EntityAttrSearchKey, MapTripleStore, ReadonlyTripleStore, TripleRangeQueryOptions
+} from '@mithic/collections';
+import { AbortOptions, ContentId, MaybeAsyncIterableIterator, MaybePromise, ToString } from '@mithic/commons';
+import { defaultParseId, defaultStringify, getCID } from '../defaults.ts';
+import { ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, ReadonlyEntityStore } from '../store.ts';
+import {
+  EVENT_TIME_TAG, FractionalIndexGenerator, IndexGenerator, createLSeqMoveTag, createMarkTag, createTextRunTag,
+  isTreeAncestor, lseqKey, lseqMoveWinners, markAttr, parseLSeqTag, parseTextCharId, textCharId, textChars,
+  treeAncestorEntries
+} from '../utils/index.ts';
+import {
+  EntityAttrCommand, EntityCommand, EntityCommandHandler, EntityCommandPayload, EntityCommandType, EntityEvent,
+  EntityEventOp, EntityEventType, EntityTxEvent
 } from './interface.ts';
+import { EntityCipher, isEncryptedValue } from './encryption.ts';
+import { EntitySchema, validateEntityAttrCommands } from './schema.ts';
+import { resolveEntityTxRoots } from './tx.ts';
+
+const REPLICA_PATTERN = /^[\w-]+$/;
+
+/** Results of range lookups of commands on an entity, by attribute and kind of lookup. */
+type AttrRanges<Id, V> = Map<string, [EntityAttrKey<Id>, V][]>;
 
 /** Observed-removed entity command handler. */
 export class OREntityCommandHandler<Id extends ToString = ContentId, V = unknown>
@@ -16,38 +31,171 @@ export class OREntityCommandHandler<Id extends ToString = ContentId, V = unknown
     protected readonly stringify: (value: V, options?: AbortOptions) => MaybePromise<string> = defaultStringify,
     /** {@link IndexGenerator} instance. */
     protected readonly generator: IndexGenerator<string> = new FractionalIndexGenerator(),
-  ) { }
+    /**
+     * Unique ID of this replica, consisting of alphanumeric, `_` or `-` characters.
+     * It is used as the tag of counter values written by this replica.
+     */
+    protected readonly replica: string = crypto.randomUUID(),
+    /** Schemas by entity type. Commands on entity types without schema are not validated. */
+    protected readonly schemas: ReadonlyMap<string, EntitySchema<V>> = new Map(),
+    /** Cipher for encrypting values with per-entity keys. Values are not encrypted if not specified. */
+    protected readonly cipher?: EntityCipher<V>,
+    /** Function to get key of event, used to derive Ids of entities created by transactions. */
+    protected readonly getEventKey: (event: EntityEvent<Id, V>, options?: AbortOptions) => MaybePromise<Id> = getCID,
+    /** Function to parse an Id from string, used to look up tree parents given as strings. */
+    protected readonly parseId: (id: string) => Id = defaultParseId,
+  ) {
+    if (!REPLICA_PATTERN.test(replica)) {
+      throw new TypeError(`invalid replica ID: "${replica}"`);
+    }
+  }
 
   public async handle(
     state: ReadonlyEntityStore<Id, V>, command: EntityCommand<Id, V>, options?: AbortOptions
   ): Promise<EntityEvent<Id, V> | undefined> {
+    if (command.type === EntityCommandType.Tx) {
+      return this.handleTx(state, command, options);
+    }
+
     const root = command.root;
-    const cmds = command.payload.cmd;
-    const attrs = Object.keys(cmds);
-    const type = root === void 0 ? EntityEventType.New : EntityEventType.Update;
+    const type = command.type === EntityCommandType.Delete ? EntityEventType.Delete :
+      root === void 0 ? EntityEventType.New : EntityEventType.Update;
     const link: Id[] = [];
     const linkMap: Record<string, number> = {};
+
+    if (type === EntityEventType.Update && !Object.keys(command.payload.cmd).length) { return; }
+    if (type === EntityEventType.Delete && root === void 0) { return; }
+
+    const ops = await this.getEntityOps(state, type, root, command.payload, void 0, link, linkMap, options);
+
+    const event = {
+      type, link, root,
+      payload: { ops, type: command.payload.type },
+      nonce: command.nonce,
+    };
+    if (event.root === void 0) { delete event.root; }
+    if (event.nonce === void 0) { delete event.nonce; }
+    if (event.payload.type === void 0) { delete event.payload.type; }
+
+    return event;
+  }
+
+  protected sortOps = (op1: EntityEventOp<V>, op2: EntityEventOp<V>) =>
+    op1[0] < op2[0] ? -1 : op1[0] > op2[0] ? 1 :
+      op1[1] < op2[1] ? -1 : op1[1] > op2[1] ? 1 : 0;
+
+  /** Converts given value to its tag, which must not end with the reserved {@link EVENT_TIME_TAG}. */
+  protected stringifyTag = async (value: V, options?: AbortOptions): Promise<string> => {
+    const tag = await this.stringify(value, options);
+    if (tag.endsWith(EVENT_TIME_TAG)) {
+      throw new TypeError(`invalid value tag: "${tag}"`);
+    }
+    return tag;
+  };
+
+  /** Handles a transaction command, which produces a single event on all its entities. */
+  private async handleTx(
+    state: ReadonlyEntityStore<Id, V>, command: EntityCommand<Id, V>, options?: AbortOptions
+  ): Promise<EntityEvent<Id, V> | undefined> {
+    const cmds = command.payload.tx || [];
+    const link: Id[] = [];
+    const linkMap: Record<string, number> = {};
+    const tx: EntityTxEvent<Id, V>[] = [];
+
+    for (const { type: cmdType, root, payload, refs } of cmds) {
+      const type: EntityTxEvent<Id, V>['type'] = cmdType === EntityCommandType.Delete ? EntityEventType.Delete :
+        root === void 0 ? EntityEventType.New : EntityEventType.Update;
+      if (type === EntityEventType.Delete && root === void 0) {
+        throw new TypeError('missing root');
+      }
+      if (type === EntityEventType.Update && !Object.keys(payload.cmd).length && !Object.keys(refs || {}).length) {
+        throw new TypeError('empty operation');
+      }
+      for (const [attr, index] of Object.entries(refs || {})) {
+        if (!cmds[index] || cmds[index].root !== void 0 || cmds[index].type === EntityCommandType.Delete) {
+          throw new TypeError(`invalid reference: "${attr}"`);
+        }
+      }
+
+      const ops = await this.getEntityOps(state, type, root, payload, refs, link, linkMap, options);
+      const entry = { type, root: root as Id, payload: { ops, type: payload.type }, refs };
+      if (entry.payload.type === void 0) { delete entry.payload.type; }
+      if (entry.refs === void 0) { delete entry.refs; }
+      tx.push(entry);
+    }
+    if (!tx.length) { return; }
+
+    const event = {
+      type: EntityEventType.Tx, link,
+      payload: { ops: [], tx },
+      nonce: command.nonce,
+    };
+    if (event.nonce === void 0) { delete event.nonce; }
+
+    return resolveEntityTxRoots(event, this.getEventKey, options); // derive Ids of new entities
+  }
+
+  /** Returns the sorted operations of a command on an entity. */
+  private async getEntityOps(
+    state: ReadonlyEntityStore<Id, V>, type: EntityEventType, root: Id | undefined, payload: EntityCommandPayload<V>,
+    refs: { readonly [attr: string]: number } | undefined, link: Id[], linkMap: Record<string, number>,
+    options?: AbortOptions
+  ): Promise<EntityEventOp<V>[]> {
+    const cmds = payload.cmd;
+    const attrs = type === EntityEventType.Delete ? [] : Object.keys(cmds);
+    const refAttrs = type === EntityEventType.Delete ? [] : Object.keys(refs || {});
     const ops: [...EntityEventOp<V>][] = [];
     const attrSortOpsMap: Record<string, number> = {};
 
-    if (type === EntityEventType.Update && !attrs.length) { return; }
+    const schema = this.schemas.get(payload.type ?? '');
+    const error = schema && validateEntityAttrCommands(schema, cmds);
+    if (error) { throw error; }
+
+    const store = state.store(payload.type);
+    const [cache, ranges, kid] = type === EntityEventType.Update && root !== void 0 ?
+      await this.prefetch(store, root, cmds, refAttrs, options) :
+      [store, new Map(), type === EntityEventType.New ? await this.cipher?.createKey(payload.type, options) : void 0];
+    const stringify = kid !== void 0 ?
+      (value: V, options?: AbortOptions) => this.cipher!.hash(kid, value, options) : this.stringifyTag;
+    if (type === EntityEventType.New && kid !== void 0) {
+      ops.push([ENTITY_KEY_ATTR, kid, kid as V]);
+    }
+    if (type === EntityEventType.Delete) {
+      for (const op of await this.getEntityDeleteOps(store, root!, link, linkMap, options)) {
+        ops.push(op);
+      }
+    }
 
-    const store = state.store(command.payload.type);
     for (const attr of attrs) {
       const cmd = cmds[attr];
+      if (attr === ENTITY_KEY_ATTR || (attr === ENTITY_TOMBSTONE_ATTR && !isTombstoneCommand(cmd))) {
+        throw new TypeError(`reserved attribute: "${attr}"`);
+      }
+      if (cmd.inc !== void 0 && cmd.set !== void 0) {
+        throw new TypeError(`conflicting commands: "${attr}"`);
+      }
       const isDelete =
         cmd.del === true || !!cmd.del?.length ||
         cmd.set !== void 0 ||
+        cmd.resolve !== void 0 ||
+        cmd.inc !== void 0 ||
+        cmd.move !== void 0 ||
+        cmd.parent !== void 0 ||
+        !!cmd.revert?.length ||
         (cmd.splice?.[1] || 0) > 0;
 
       if (type === EntityEventType.Update && root && isDelete) {
-        for (const op of await this.getDeleteOps(store, root, attr, cmd, link, linkMap, options)) {
+        for (const op of await this.getDeleteOps(
+          cache, ranges, store, root, attr, cmd, link, linkMap, stringify, options
+        )) {
           ops.push(op);
           attrSortOpsMap[`${op[0]}#${op[1]}`] = ops.length - 1;
         }
       }
 
-      for (const [tag, value] of await this.getNewTagValues(store, root, attr, cmd, options)) {
+      for (const [tag, value] of await this.getNewTagValues(
+        cache, ranges, store, root, attr, cmd, stringify, options
+      )) {
         const attrTag = `${attr}#${tag}`;
         const index = attrSortOpsMap[attrTag] ?? -1;
         if (index >= 0) {
@@ -57,50 +205,218 @@ export class OREntityCommandHandler<Id extends ToString = ContentId, V = unknown
           attrSortOpsMap[attrTag] = ops.length - 1;
         }
       }
+
+      if (cmd.mark) { // add formatting mark to the companion mark attribute
+        const [start, end, name, value = true] = cmd.mark;
+        ops.push([markAttr(attr), createMarkTag(start, end, name), value as V]);
+      }
+    }
+
+    for (const attr of refAttrs) { // replace existing values with the index of referenced entity, to be resolved
+      if (cmds[attr] || kid !== void 0 || attr === ENTITY_KEY_ATTR || attr === ENTITY_TOMBSTONE_ATTR) {
+        throw new TypeError(`invalid reference: "${attr}"`);
+      }
+      if (type === EntityEventType.Update && root) {
+        const cmd = { del: true } as const;
+        for (const op of await this.getDeleteOps(
+          cache, ranges, store, root, attr, cmd, link, linkMap, stringify, options
+        )) {
+          ops.push(op);
+        }
+      }
+      ops.push([attr, EVENT_TIME_TAG, refs![attr] as V]);
     }
 
     ops.sort(this.sortOps); // ops must be sorted
 
-    const event = {
-      type, link, root,
-      payload: { ops, type: command.payload.type },
-      nonce: command.nonce,
+    if (kid !== void 0) { // encrypt values with the entity key
+      for (const op of ops) {
+        if (op[2] !== null && op[0] !== ENTITY_KEY_ATTR && op[0] !== ENTITY_TOMBSTONE_ATTR) {
+          const value = isEncryptedValue(op[2]) ? // restored values are re-encrypted
+            await this.cipher!.decrypt(op[2], op[0], op[1], options) : op[2];
+          op[2] = await this.cipher!.encrypt(kid, op[0], op[1], value, options);
+        }
+      }
+    }
+
+    return ops;
+  }
+
+  /**
+   * Fetches the existing entries of given entity needed to handle given attribute commands in a single batched query,
+   * including the entity key and list ranges. Entries with tags known in advance are returned as an in-memory store.
+   * Values to delete from an encrypted entity are fetched in a second query, as their tags depend on the entity key.
+   */
+  private async prefetch(
+    store: ReadonlyTripleStore<Id, V>, root: Id, cmds: EntityCommandPayload<V>['cmd'], refAttrs: readonly string[],
+    options?: AbortOptions
+  ): Promise<[cache: ReadonlyTripleStore<Id, V>, ranges: AttrRanges<Id, V>, kid?: string]> {
+    const queries: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>[] = [];
+    const rangeKeys: (string | undefined)[] = [];
+    const addRange = (rangeKey: string | undefined, query: TripleRangeQueryOptions<EntityAttrSearchKey<Id>, Id>) => {
+      queries.push(query);
+      rangeKeys.push(rangeKey);
     };
-    if (event.root === void 0) { delete event.root; }
-    if (event.nonce === void 0) { delete event.nonce; }
-    if (event.payload.type === void 0) { delete event.payload.type; }
+    const addKey = (key: EntityAttrSearchKey<Id>) => addRange(void 0, { lower: key, upper: key, upperOpen: false });
 
-    return event;
+    if (this.cipher) {
+      addRange(ENTITY_KEY_ATTR, {
+        lower: [root, ENTITY_KEY_ATTR], upper: [root, ENTITY_KEY_ATTR], upperOpen: false, limit: 1,
+      });
+    }
+    const deletedValues: [attr: string, value: V][] = [];
+    for (const [attr, cmd] of Object.entries(cmds)) {
+      if (cmd.del === true || cmd.set !== void 0 || cmd.resolve !== void 0) {
+        addKey([root, attr]); // all values to delete or keep
+      } else {
+        for (const value of cmd.del || []) {
+          if (this.cipher) {
+            deletedValues.push([attr, value]);
+          } else {
+            addKey([root, attr, await this.stringifyTag(value, options)]);
+          }
+        }
+        for (const [tag] of cmd.revert || []) {
+          addKey([root, attr, tag]);
+        }
+        if (cmd.inc !== void 0) {
+          addKey([root, attr, this.replica]);
+        }
+      }
+      if (cmd.splice) { // list elements to delete, and the element before the insertion index
+        const [index, deleteCount] = cmd.splice;
+        if (deleteCount > 0) {
+          addRange(`${attr}#splice`, {
+            lower: [root, attr, index], upper: [root, attr], upperOpen: false, limit: deleteCount,
+          });
+        }
+        if (cmd.splice.length > 2) {
+          addRange(`${attr}#before`, {
+            lower: [root, attr, ''], upper: [root, attr, index], limit: 1, reverse: true,
+          });
+        }
+      }
+      if (cmd.move) { // list element to move, and the element before its new index
+        const [index, endIndex] = cmd.move;
+        addKey([root, attr, index]);
+        addRange(`${attr}#move`, {
+          lower: [root, attr, ''], upper: endIndex ? [root, attr, endIndex] : [root, attr], upperOpen: !!endIndex,
+          limit: 1, reverse: true,
+        });
+      }
+    }
+    for (const attr of refAttrs) {
+      addKey([root, attr]);
+    }
+
+    const entries: [EntityAttrKey<Id>, V][] = [];
+    const ranges: AttrRanges<Id, V> = new Map();
+    if (queries.length) {
+      let i = 0;
+      for await (const iter of store.entriesMany(queries, options)) {
+        const rangeKey = rangeKeys[i++];
+        const results = rangeKey === void 0 ? entries : [];
+        for await (const entry of iter) { results.push(entry); }
+        if (rangeKey !== void 0) { ranges.set(rangeKey, results); }
+      }
+    }
+
+    let kid: string | undefined;
+    if (this.cipher) {
+      kid = ranges.get(ENTITY_KEY_ATTR)?.[0]?.[1] as string | undefined;
+      if (kid === void 0) { throw new TypeError('missing entity key'); }
+      const keys: EntityAttrSearchKey<Id>[] = [];
+      for (const [attr, value] of deletedValues) {
+        keys.push([root, attr, await this.cipher.hash(kid, value, options)]);
+      }
+      if (keys.length) {
+        for await (const iter of store.findMany(keys, options)) {
+          for await (const entry of iter) { entries.push(entry); }
+        }
+      }
+    }
+
+    const cache = new MapTripleStore<Id, V>();
+    for await (const _ of cache.updateMany(entries, options)) { /* in-memory update does not fail */ }
+    return [cache, ranges, kid];
   }
 
-  protected sortOps = (op1: EntityEventOp<V>, op2: EntityEventOp<V>) =>
-    op1[0] < op2[0] ? -1 : op1[0] > op2[0] ? 1 :
-      op1[1] < op2[1] ? -1 : op1[1] > op2[1] ? 1 : 0;
+  /** Decrypts the values of given entries if encryption is enabled. */
+  private async * decryptEntries(
+    entries: MaybeAsyncIterableIterator<[key: EntityAttrKey<Id>, value: V]>, options?: AbortOptions
+  ): AsyncIterableIterator<[key: EntityAttrKey<Id>, value: V]> {
+    for await (const [key, value] of entries) {
+      yield [key, this.cipher ? await this.cipher.decrypt(value, key[1], key[2], options) : value];
+    }
+  }
+
+  private async getEntityDeleteOps(
+    store: ReadonlyTripleStore<Id, V>, root: Id, link: Id[], linkMap: Record<string, number>, options?: AbortOptions
+  ): Promise<[...EntityEventOp<V>][]> {
+    const ops: [...EntityEventOp<V>][] = [];
+    const keysToDelete = new Set<number>();
+    let lastAttr = '', lastTag = '';
+
+    // Finds all existing attribute values to delete, other than existing tombstones and the entity key
+    for await (const [[_id, attr, tag, parentTxId]] of store.entries({
+      ...options,
+      lower: [root],
+      upper: [root],
+      upperOpen: false,
+    })) {
+      if (attr === ENTITY_TOMBSTONE_ATTR || attr === ENTITY_KEY_ATTR) { continue; }
+      if (attr !== lastAttr || tag !== lastTag) {
+        if (keysToDelete.size) {
+          ops.push([lastAttr, lastTag, null, ...[...keysToDelete].sort()]);
+          keysToDelete.clear();
+        }
+        lastAttr = attr;
+        lastTag = tag;
+      }
+      const parentTxIdStr = `${parentTxId}`;
+      keysToDelete.add(linkMap[parentTxIdStr] = linkMap[parentTxIdStr] ?? (link.push(parentTxId!) - 1));
+    }
+    if (keysToDelete.size) {
+      ops.push([lastAttr, lastTag, null, ...[...keysToDelete].sort()]);
+    }
+
+    return ops;
+  }
 
   private async getDeleteOps(
-    store: ReadonlyTripleStore<Id, V>, root: Id, attr: string, cmd: EntityAttrCommand<V>,
-    link: Id[], linkMap: Record<string, number>, options?: AbortOptions
+    cache: ReadonlyTripleStore<Id, V>, ranges: AttrRanges<Id, V>, store: ReadonlyTripleStore<Id, V>, root: Id,
+    attr: string,
+    cmd: EntityAttrCommand<V>, link: Id[], linkMap: Record<string, number>,
+    stringify: (value: V, options?: AbortOptions) => MaybePromise<string>, options?: AbortOptions
   ): Promise<[...EntityEventOp<V>][]> {
     const ops: [...EntityEventOp<V>][] = [];
 
     // Finds all existing tags to delete
     const keys: EntityAttrSearchKey<Id>[] = [];
-    const isDeleteAll = cmd.del === true || cmd.set !== void 0;
+    const isDeleteAll = cmd.del === true || cmd.set !== void 0 || cmd.resolve !== void 0;
+    const valueToKeep = cmd.resolve !== void 0 ? await stringify(cmd.resolve, options) : void 0;
     if (isDeleteAll) { // delete all from attribute
       keys.push([root, attr]);
     } else if (cmd.del?.length) { // delete specific values
       for (const value of cmd.del) {
-        keys.push([root, attr, await this.stringify(value, options)]);
+        keys.push([root, attr, await stringify(value, options)]);
       }
     }
+    if (!isDeleteAll && cmd.inc !== void 0) { // replace existing counter value of this replica
+      keys.push([root, attr, this.replica]);
+    }
 
     // Finds all existing transaction Ids for tags
-    // TODO: call findMany in batch for all attributes
     if (keys.length) {
       const keysToDelete = new Set<number>();
       let lastTag = '';
-      for await (const iter of store.findMany(keys, options)) {
-        for await (const [[, , tag, parentTxId]] of iter) {
+      let keptValue = false;
+      for await (const iter of cache.findMany(keys, options)) {
+        for await (const [[, , tag, parentTxId], value] of this.decryptEntries(iter, options)) {
+          if (valueToKeep !== void 0 && valueToKeep === await stringify(value, options)) {
+            keptValue = true;
+            continue;
+          }
           if (tag !== lastTag) {
             if (keysToDelete.size) {
               ops.push([attr, lastTag, null, ...[...keysToDelete].sort()]);
@@ -115,19 +431,82 @@ export class OREntityCommandHandler<Id extends ToString = ContentId, V = unknown
       if (keysToDelete.size) {
         ops.push([attr, lastTag, null, ...[...keysToDelete].sort()]);
       }
+      if (valueToKeep !== void 0 && !keptValue) { // resolving to a removed value would remove all values
+        throw new TypeError(`resolved value not found: "${attr}"`);
+      }
     }
 
-    // Find entries after given list index to delete
+    // Find values added by given transactions to delete
+    if (!isDeleteAll && cmd.revert?.length) {
+      const txIdsByTag = new Map<string, Set<string>>();
+      for (const [tag, txId] of cmd.revert) {
+        let txIds = txIdsByTag.get(tag);
+        if (!txIds) {
+          txIdsByTag.set(tag, txIds = new Set());
+        }
+        txIds.add(txId);
+      }
+
+      for await (const iter of cache.findMany([...txIdsByTag.keys()].map((tag) => [root, attr, tag]), options)) {
+        const keysToDelete = new Set<number>();
+        let lastTag = '';
+        for await (const [[, , tag, parentTxId]] of iter) {
+          if (!txIdsByTag.get(tag)?.has(`${parentTxId}`)) { continue; }
+          lastTag = tag;
+          const parentTxIdStr = `${parentTxId}`;
+          keysToDelete.add(linkMap[parentTxIdStr] = linkMap[parentTxIdStr] ?? (link.push(parentTxId!) - 1));
+        }
+        if (keysToDelete.size) {
+          ops.push([attr, lastTag, null, ...[...keysToDelete].sort()]);
+        }
+      }
+    }
+
+    // Find existing tree parents to replace, keeping the effective one as fallback if the move is later rejected
+    if (cmd.parent !== void 0) {
+      const txIdsByTag = await this.findReplacedTreeParents(store, root, attr, cmd.parent, options);
+      for (const [tag, txIds] of isDeleteAll ? [] : txIdsByTag) {
+        const keysToDelete = new Set<number>();
+        for (const parentTxId of txIds) {
+          const parentTxIdStr = `${parentTxId}`;
+          keysToDelete.add(linkMap[parentTxIdStr] = linkMap[parentTxIdStr] ?? (link.push(parentTxId) - 1));
+        }
+        ops.push([attr, tag, null, ...[...keysToDelete].sort()]);
+      }
+    }
+
+    // Find visible list elements after given list index to delete
+    const movedIdentities = new Set<string>();
     if (!isDeleteAll && cmd.splice && cmd.splice[1] > 0) {
+      for (const [index, txIds] of await this.findLSeqElements(
+        store, ranges.get(`${attr}#splice`) || [], root, attr, cmd.splice[0], cmd.splice[1], options
+      )) {
+        const [, identity, time] = parseLSeqTag(index);
+        if (time !== void 0) { movedIdentities.add(identity); }
+        const keysToDelete = new Set<number>();
+        for (const parentTxId of txIds) {
+          const parentTxIdStr = `${parentTxId}`;
+          keysToDelete.add(linkMap[parentTxIdStr] = linkMap[parentTxIdStr] ?? (link.push(parentTxId) - 1));
+        }
+        ops.push([attr, index, null, ...[...keysToDelete].sort()]);
+      }
+    }
+
+    // Find all copies of moved list elements to delete
+    if (!isDeleteAll && cmd.move) {
+      movedIdentities.add(parseLSeqTag(cmd.move[0])[1]);
+    }
+    if (movedIdentities.size) {
+      const deletedTags = new Set(ops.map(([, tag]) => tag));
       const keysToDelete = new Set<number>();
       let lastTag = '';
       for await (const [[_id, _attr, index, parentTxId]] of store.entries({
         ...options,
-        lower: [root, attr, cmd.splice[0]],
+        lower: [root, attr],
         upper: [root, attr],
         upperOpen: false,
-        limit: cmd.splice[1],
       })) {
+        if (deletedTags.has(index) || !movedIdentities.has(parseLSeqTag(index)[1])) { continue; }
         if (index !== lastTag) {
           if (keysToDelete.size) {
             ops.push([attr, lastTag, null, ...[...keysToDelete].sort()]);
@@ -146,43 +525,215 @@ export class OREntityCommandHandler<Id extends ToString = ContentId, V = unknown
     return ops;
   }
 
+  /**
+   * Returns up to given number of visible list elements from given index, grouped by tag into their transaction Ids,
+   * from given prefetched entries from the index.
+   * Losing copies of concurrently moved elements are skipped, as they are not visible in the list,
+   * in which case the elements are read from the store instead.
+   */
+  private async findLSeqElements(
+    store: ReadonlyTripleStore<Id, V>, prefetched: readonly [EntityAttrKey<Id>, V][], root: Id, attr: string,
+    index: string, count: number, options?: AbortOptions
+  ): Promise<[tag: string, txIds: Id[]][]> {
+    let entries: MaybeAsyncIterableIterator<readonly [EntityAttrKey<Id>, V]> = prefetched.values();
+    let winners: Set<string> | undefined;
+    if (prefetched.some(([[, , tag]]) => parseLSeqTag(tag)[2] !== void 0)) {
+      winners = await lseqMoveWinners(store.entries({
+        ...options, lower: [root, attr], upper: [root, attr], upperOpen: false,
+      }));
+      entries = store.entries({ ...options, lower: [root, attr, index], upper: [root, attr], upperOpen: false });
+    }
+
+    const elements: [tag: string, txIds: Id[]][] = [];
+    for await (const [[, , tag, txId]] of entries) {
+      if (winners && parseLSeqTag(tag)[2] !== void 0 && !winners.has(lseqKey(tag, txId))) { continue; }
+      if (elements[elements.length - 1]?.[0] === tag) {
+        elements[elements.length - 1][1].push(txId!);
+      } else {
+        elements.push([tag, [txId!]]);
+      }
+      if (--count <= 0) { break; }
+    }
+    return elements;
+  }
+
   private async getNewTagValues(
-    store: ReadonlyTripleStore<Id, V>, root: Id | undefined, attr: string, cmd: EntityAttrCommand<V>,
-    options?: AbortOptions
+    cache: ReadonlyTripleStore<Id, V>, ranges: AttrRanges<Id, V>, store: ReadonlyTripleStore<Id, V>,
+    root: Id | undefined, attr: string, cmd: EntityAttrCommand<V>,
+    stringify: (value: V, options?: AbortOptions) => MaybePromise<string>, options?: AbortOptions
   ): Promise<[tag: string, value: V][]> {
     if (cmd.set !== void 0) { // set attribute to single value
-      return [[await this.stringify(cmd.set, options), cmd.set]];
+      return [[cmd.lww ? EVENT_TIME_TAG : await stringify(cmd.set, options), cmd.set]];
     }
 
     const results: [tag: string, value: V][] = [];
 
     for (const value of cmd.add || []) { // add unique values
-      results.push([await this.stringify(value, options), value]);
+      results.push([await stringify(value, options), value]);
+    }
+
+    for (const [tag, value] of cmd.restore || []) { // add values back at given tags
+      results.push([tag, value]);
+    }
+
+    if (cmd.inc !== void 0) { // add increment to existing counter value of this replica
+      let count = cmd.inc;
+      if (root !== void 0 && cmd.del !== true) {
+        for await (const iter of cache.findMany([[root, attr, this.replica]], options)) {
+          for await (const [, value] of this.decryptEntries(iter, options)) {
+            count += value as number;
+          }
+        }
+      }
+      results.push([this.replica, count as V]);
+    }
+
+    if (cmd.parent !== void 0) { // move under given tree parent
+      results.push([EVENT_TIME_TAG, cmd.parent]);
     }
 
     if (cmd.splice && cmd.splice.length > 2) { // add before given list index
-      let startIndex: string | undefined;
       const [endIndex, _deleteCount, ...values] = cmd.splice;
+      const startIndex = ranges.get(`${attr}#before`)?.[0]?.[0][2]; // index before given index to insert in between
 
-      if (root !== void 0) { // try to find an index before given index to insert in between
-        for await (const [[_id, _attr, index]] of store.entries({
-          ...options,
-          lower: [root, attr, ''],
-          upper: [root, attr, endIndex],
-          limit: 1,
-          reverse: true,
-        })) {
-          startIndex = index;
+      let i = 0;
+      for (const index of this.generator.create(
+        startIndex && parseLSeqTag(startIndex)[0], parseLSeqTag(endIndex)[0], values.length
+      )) {
+        results.push([index, values[i++]]);
+      }
+    }
+
+    if (cmd.move && root !== void 0) { // move existing list element to before given list index
+      const [index, endIndex] = cmd.move;
+      let value: V | undefined;
+      for await (const iter of cache.findMany([[root, attr, index]], options)) {
+        for await (const [, entryValue] of this.decryptEntries(iter, options)) {
+          value = entryValue;
           break;
         }
       }
 
-      let i = 0;
-      for (const index of this.generator.create(startIndex, endIndex, values.length)) {
-        results.push([index, values[i++]]);
+      if (value !== void 0) {
+        const startIndex = ranges.get(`${attr}#move`)?.[0]?.[0][2];
+        for (const newIndex of this.generator.create(
+          startIndex && parseLSeqTag(startIndex)[0], endIndex ? parseLSeqTag(endIndex)[0] : void 0
+        )) {
+          results.push([createLSeqMoveTag(newIndex, parseLSeqTag(index)[1]), value]);
+        }
+      }
+    }
+
+    if (cmd.text) { // splice text
+      for (const entry of await this.getTextTagValues(store, root, attr, cmd.text, options)) {
+        results.push(entry);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Returns existing tree parents of given entity to replace by moving it under given parent, as transaction Ids by tag,
+   * other than its effective parent resolved from the moves of the entity and of the ancestors of both parents.
+   * Throws if the move would introduce a cycle. Concurrent moves that do so are resolved by the tree view instead.
+   */
+  private async findReplacedTreeParents(
+    store: ReadonlyTripleStore<Id, V>, root: Id, attr: string, parent: V, options?: AbortOptions
+  ): Promise<Map<string, Id[]>> {
+    const parentId = this.parseTreeParent(parent);
+    const entries = await treeAncestorEntries(
+      store, parentId === void 0 ? [root] : [root, parentId], attr,
+      (value, [, attr, tag], options) => this.cipher ? this.cipher.decrypt(value, attr, tag, options) : value,
+      (value) => this.parseTreeParent(value),
+      options,
+    );
+
+    const rootKey = `${root}`;
+    const parents = new Map<string, [node: Id, parent: Id]>();
+    let effective: EntityAttrKey<Id> | undefined;
+    for (const [key, value] of entries) { // replay moves as the tree view does, to find the effective parent
+      const nodeKey = `${key[0]}`;
+      if (!isTreeAncestor(parents, nodeKey, `${value}`)) {
+        parents.set(nodeKey, [key[0], value as unknown as Id]);
+        if (nodeKey === rootKey) { effective = key; }
       }
     }
+    if (isTreeAncestor(parents, rootKey, `${parentId ?? parent}`)) {
+      throw new TypeError(`cannot move entity under itself or its descendant: "${attr}"`);
+    }
+
+    const txIdsByTag = new Map<string, Id[]>();
+    for (let i = entries.length - 1; i >= 0; --i) { // in order of tags
+      const [key] = entries[i];
+      if (key === effective || `${key[0]}` !== rootKey) { continue; }
+      let txIds = txIdsByTag.get(key[2]);
+      if (!txIds) {
+        txIdsByTag.set(key[2], txIds = []);
+      }
+      txIds.push(key[3]!);
+    }
+    return txIdsByTag;
+  }
+
+  /** Parses given tree parent as an entity Id, or returns undefined if it is not one. */
+  private parseTreeParent(value: V): Id | undefined {
+    try {
+      return typeof value === 'string' ? this.parseId(value) : value as unknown as Id;
+    } catch {
+      return void 0;
+    }
+  }
+
+  private async getTextTagValues(
+    store: ReadonlyTripleStore<Id, V>, root: Id | undefined, attr: string,
+    [pos, deleteCount, text]: readonly [pos: string, deleteCount: number, insert?: string], options?: AbortOptions
+  ): Promise<[tag: string, value: V][]> {
+    const results: [tag: string, value: V][] = [];
+    let prev: string | undefined;
+    let next: string | undefined;
+
+    if (root !== void 0) {
+      // find characters around given position, and mark characters to delete as runs of [start, count]
+      let deletion: [run: string, start: number, count: number] | undefined;
+      for await (const [id, , deleted] of textChars(this.decryptEntries(store.entries({
+        ...options,
+        lower: [root, attr],
+        upper: [root, attr],
+        upperOpen: false,
+      }), options))) {
+        if (pos === '' || id < pos) {
+          prev = id;
+          continue;
+        }
+        next = next ?? id;
+        if (deleteCount <= 0) { break; }
+        if (deleted) { continue; }
+
+        const [run, offset] = parseTextCharId(id)!;
+        if (deletion && deletion[0] === run && deletion[1] + deletion[2] === offset) {
+          ++deletion[2];
+        } else {
+          if (deletion) { results.push([textCharId(deletion[0], deletion[1]), deletion[2] as V]); }
+          deletion = [run, offset, 1];
+        }
+        --deleteCount;
+      }
+      if (deletion) { results.push([textCharId(deletion[0], deletion[1]), deletion[2] as V]); }
+    }
+
+    if (text) {
+      results.push([createTextRunTag(this.generator, prev, next), text as V]);
+    }
 
     return results;
   }
 }
+
+/** Returns if given command on the tombstone attribute only reverts or restores tombstones, as emitted by undo. */
+function isTombstoneCommand<V>(cmd: EntityAttrCommand<V>): boolean {
+  const { revert, restore, ...rest } = cmd;
+  return Object.values(rest).every((value) => value === void 0) &&
+    (revert || []).every(([tag]) => tag === '') &&
+    (restore || []).every(([tag, value]) => tag === '' && value === true);
+}
@@ -0,0 +1,158 @@
+import { AbortOptions, MaybePromise, NotFoundError } from '@mithic/commons';
+import { defaultDecode, defaultEncode, defaultStringify } from '../defaults.ts';
+import { EVENT_TIME_TAG, splitEventTimeTag } from '../utils/index.ts';
+
+const IV_LENGTH = 12;
+
+/** Encrypted attribute value of an entity. */
+export interface EncryptedValue {
+  /** Id of the entity key. */
+  readonly kid: string;
+
+  /** AES-GCM initialization vector. */
+  readonly iv: Uint8Array;
+
+  /** Encrypted encoded value. */
+  readonly data: Uint8Array;
+
+  /** Whether the tag of the value ends with its event time, which is excluded from its authenticated data. */
+  readonly timed?: true;
+}
+
+/** Symmetric keys of an entity. */
+export interface EntityKey {
+  /** AES-GCM key for encrypting values. */
+  readonly value: CryptoKey;
+
+  /** HMAC key for deriving tags of values. */
+  readonly tag: CryptoKey;
+}
+
+/** Provider of per-entity symmetric keys. */
+export interface EntityKeyProvider {
+  /** Returns the key of given Id, or undefined if not available. */
+  getKey(kid: string, options?: AbortOptions): MaybePromise<EntityKey | undefined>;
+
+  /** Creates a key for a new entity of given type and returns its Id. */
+  createKey(type: string | undefined, options?: AbortOptions): MaybePromise<string>;
+}
+
+/** {@link EntityKeyProvider} that derives entity keys from a shared HKDF master key by random key Ids. */
+export class DerivedEntityKeyProvider implements EntityKeyProvider {
+  public constructor(
+    /** HKDF master key, which is shared by all replicas with access to the entities. */
+    protected readonly masterKey: CryptoKey,
+  ) {
+  }
+
+  public async getKey(kid: string, options?: AbortOptions): Promise<EntityKey> {
+    const salt = new TextEncoder().encode(kid);
+    const value = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode('value') },
+      this.masterKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'],
+    );
+    options?.signal?.throwIfAborted();
+    const tag = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode('tag') },
+      this.masterKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+    );
+    return { value, tag };
+  }
+
+  public createKey(): string {
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * Cipher of entity attribute values, which encrypts values with AES-GCM and derives tags with HMAC-SHA-256.
+ * Encrypted values are bound to their key Id, attribute and tag as additional authenticated data,
+ * so that they cannot be moved to other attributes, tags or entities.
+ * As each entity has its own key, tags of equal values differ between entities,
+ * so lookups and range queries by encrypted attribute values are not supported.
+ */
+export class EntityCipher<V = unknown> {
+  private readonly keys = new Map<string, EntityKey>();
+
+  public constructor(
+    /** Provider of entity keys. */
+    protected readonly provider: EntityKeyProvider,
+    /** Function for converting value to string before hashing. */
+    protected readonly stringify: (value: V, options?: AbortOptions) => MaybePromise<string> = defaultStringify,
+    /** Function to encode a value to bytes for encryption. */
+    protected readonly encode: <T>(value: T) => Uint8Array = defaultEncode,
+    /** Function to decode a value from decrypted bytes. */
+    protected readonly decode: <T>(data: Uint8Array) => T = defaultDecode,
+  ) {
+  }
+
+  /** Creates a key for a new entity of given type and returns its Id. */
+  public createKey(type: string | undefined, options?: AbortOptions): MaybePromise<string> {
+    return this.provider.createKey(type, options);
+  }
+
+  /** Encrypts given value of given attribute and operation tag with the key of given Id. */
+  public async encrypt(kid: string, attr: string, tag: string, value: V, options?: AbortOptions): Promise<V> {
+    const key = await this.getKey(kid, options);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const timed = tag.endsWith(EVENT_TIME_TAG);
+    const aad = additionalData(kid, attr, timed ? tag.slice(0, -EVENT_TIME_TAG.length) : tag);
+    const data = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: aad }, key.value, this.encode(value))
+    );
+    return { kid, iv, data, ...(timed ? { timed } : {}) } satisfies EncryptedValue as V;
+  }
+
+  /**
+   * Decrypts given value of given attribute and tag if it is encrypted, where the tag may have its event time resolved.
+   * Throws a {@link NotFoundError} if its key is not available.
+   */
+  public async decrypt(value: V, attr: string, tag: string, options?: AbortOptions): Promise<V> {
+    if (!isEncryptedValue(value)) { return value; }
+    const key = await this.getKey(value.kid, options);
+    if (value.timed) {
+      tag = tag.endsWith(EVENT_TIME_TAG) ? tag.slice(0, -EVENT_TIME_TAG.length) : splitEventTimeTag(tag)[0];
+    }
+    let data: ArrayBuffer;
+    try {
+      data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: value.iv, additionalData: additionalData(value.kid, attr, tag) }, key.value, value.data
+      );
+    } catch (error) {
+      if (options?.signal?.aborted) { throw error; }
+      throw new TypeError('invalid encrypted value', { cause: error });
+    }
+    return this.decode(new Uint8Array(data));
+  }
+
+  /** Returns the tag of given value, keyed by the key of given Id. */
+  public async hash(kid: string, value: V, options?: AbortOptions): Promise<string> {
+    const key = await this.getKey(kid, options);
+    const text = await this.stringify(value, options);
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key.tag, new TextEncoder().encode(text)));
+    return btoa(String.fromCharCode(...mac)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private async getKey(kid: string, options?: AbortOptions): Promise<EntityKey> {
+    let key = this.keys.get(kid);
+    if (!key) {
+      key = await this.provider.getKey(kid, options);
+      if (!key) { throw new NotFoundError(`key not found: "${kid}"`); }
+      this.keys.set(kid, key);
+    }
+    return key;
+  }
+}
+
+/** Returns if given value is an {@link EncryptedValue}. */
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as EncryptedValue).kid === 'string' &&
+    (value as EncryptedValue).iv instanceof Uint8Array && (value as EncryptedValue).iv.length === IV_LENGTH &&
+    (value as EncryptedValue).data instanceof Uint8Array;
+}
+
+/** Returns the additional authenticated data of a value of given key Id, attribute and tag without event time. */
+function additionalData(kid: string, attr: string, tag: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([kid, attr, tag]));
+}
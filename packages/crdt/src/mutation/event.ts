@@ -1,10 +1,20 @@
-import { EntityAttrKey } from '@mithic/collections';
+import { EntityAttrKey, TripleStore } from '@mithic/collections';
 import {
-  AbortOptions, ContentId, ERR_DEPENDENCY_MISSING, LockGuard, MaybePromise, NoOpLock, OperationError, ToString
+  AbortOptions, ContentId, ERR_DEPENDENCY_MISSING, LockGuard, MaybePromise, NoOpLock, NotFoundError, OperationError,
+  ToString
 } from '@mithic/commons';
+import { MessageDispatcher } from '@mithic/messaging';
 import { getCID } from '../defaults.ts';
-import { EntityStore, ReadonlyEntityStore } from '../store.ts';
-import { EntityEvent, EntityEventType, EntityProjection } from './interface.ts';
+import { ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, EntityStore, ReadonlyEntityStore } from '../store.ts';
+import { EVENT_TIME_TAG, resolveEventTimeTag } from '../utils/index.ts';
+import { EntityCipher, isEncryptedValue } from './encryption.ts';
+import {
+  EntityAttrChange, EntityChangeSet, EntityEvent, EntityEventOp, EntityEventType, EntityProjection
+} from './interface.ts';
+import { EntitySchema, validateEntityEventOps } from './schema.ts';
+import { EntityPolicy } from './policy.ts';
+import { EntityEventVerifier, getEntityEventAuthor } from './signature.ts';
+import { getEntityTxRoots, splitEntityEvent } from './tx.ts';
 
 /** Observed-removed entity event projection. */
 export class OREntityProjection<Id extends ToString = ContentId, V = unknown> implements EntityProjection<Id, V> {
@@ -14,49 +24,87 @@ export class OREntityProjection<Id extends ToString = ContentId, V = unknown> im
     /** Function to acquire a lock on an event key. */
     protected readonly acquireLock: (key: Id, options?: AbortOptions) => MaybePromise<LockGuard> =
       () => LockGuard.acquire(new NoOpLock()),
+    /** Schemas by entity type. Events on entity types without schema are not validated. */
+    protected readonly schemas: ReadonlyMap<string, EntitySchema<V>> = new Map(),
+    /** Dispatcher of the change set of each reduced event, if specified. */
+    protected readonly changes?: MessageDispatcher<EntityChangeSet<Id, V>>,
+    /** Verifier of event signatures. Signatures are not verified if not specified. */
+    protected readonly verifier?: EntityEventVerifier,
+    /**
+     * Access control policies by entity type. Events on entity types without policy are not restricted.
+     * A verifier must be specified to use policies, as authors are identified by signatures.
+     */
+    protected readonly policies: ReadonlyMap<string, EntityPolicy<Id, V>> = new Map(),
+    /**
+     * Cipher of encrypted values. If specified, events with unencrypted values are rejected,
+     * and values are decrypted for schema validation if their keys are available.
+     */
+    protected readonly cipher?: EntityCipher<V>,
   ) {
+    if (policies.size && !verifier) {
+      throw new TypeError('verifier is required for policies');
+    }
   }
 
   public async reduce(
     state: EntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
   ): Promise<EntityStore<Id, V>> {
     const eventKey = await this.getEventKey(event, options);
-    const root = event.type === EntityEventType.Update ? event.root as Id : eventKey;
-    const parentKeys = event.link || [];
-
-    // build the entries to update to the store
-    const entries: [key: EntityAttrKey<Id>, value?: V][] = [];
-    const newKeys: EntityAttrKey<Id>[] = [];
-    for (const [attr, tag, value, ...parents] of event.payload.ops) {
-      for (const parent of parents) {
-        const parentKey = parentKeys[parent];
-        if (parentKey !== void 0) {
-          entries.push([[root, attr, tag, parentKey]]);
-        }
-      }
-      if (value !== null) {
-        const key = [root, attr, tag, eventKey] as const;
-        entries.push([key, value]);
-        newKeys.push(key);
-      }
+
+    // build the entries to update to the store for each entity
+    const updates: [root: Id, type: string | undefined, entries: [key: EntityAttrKey<Id>, value?: V][]][] = [];
+    const newKeysByType = new Map<string | undefined, EntityAttrKey<Id>[]>();
+    for (const [root, entityEvent] of splitEntityEvent(event, eventKey)) {
+      const [entries, newKeys] = toEntries(eventKey, root, entityEvent);
+      updates.push([root, entityEvent.payload.type, entries]);
+      newKeysByType.set(entityEvent.payload.type, [...(newKeysByType.get(entityEvent.payload.type) || []), ...newKeys]);
     }
 
     // update store if event is valid and not exist. lock is required to avoid race conditions (ABA)
-    const store = state.store(event.payload.type);
+    const deletedByEntity: [key: EntityAttrKey<Id>, value: V][][] = updates.map(() => []);
     const lock = await this.acquireLock(eventKey, options);
     try {
       const error = await this.validate(state, event, options);
       if (error) { throw error; }
 
       // do not reprocess if event key already exist in store (event already processed)
-      if (newKeys.length) {
-        for await (const value of store.getMany(newKeys, options)) {
+      for (const [type, newKeys] of newKeysByType) {
+        if (!newKeys.length) { continue; }
+        for await (const value of state.store(type).getMany(newKeys, options)) {
           if (value !== void 0) { return state; }
         }
       }
 
-      if (entries.length) {
-        for await (const error of store.updateMany(entries, options)) {
+      // find deleted triples to keep in history or report as changes
+      const historyUpdates = new Map<TripleStore<Id, V>, [key: EntityAttrKey<Id>, value: V][]>();
+      for (const [i, [, type, entries]] of updates.entries()) {
+        const history = state.history?.(type);
+        const deleted = deletedByEntity[i];
+        if ((history || this.changes) && entries.some(([, value]) => value === void 0)) {
+          const deletedKeys = entries.filter(([, value]) => value === void 0).map(([key]) => key);
+          let j = 0;
+          for await (const value of state.store(type).getMany(deletedKeys, options)) {
+            if (value !== void 0) { deleted.push([deletedKeys[j], value]); }
+            ++j;
+          }
+        }
+        if (history && deleted.length) {
+          historyUpdates.set(history, [...(historyUpdates.get(history) || []), ...deleted]);
+        }
+      }
+      for (const [history, deleted] of historyUpdates) {
+        for await (const error of history.updateMany(deleted, options)) {
+          if (error) { throw new OperationError('failed to save event', { cause: error }); }
+        }
+      }
+
+      // write entries of all entities of the same type in one batch
+      const entriesByType = new Map<string | undefined, [key: EntityAttrKey<Id>, value?: V][]>();
+      for (const [, type, entries] of updates) {
+        if (entries.length) { entriesByType.set(type, [...(entriesByType.get(type) || []), ...entries]); }
+      }
+      for (const [type, entries] of entriesByType) {
+        for await (const error of state.store(type).updateMany(entries, options)) {
           if (error) { throw new OperationError('failed to save event', { cause: error }); }
         }
       }
@@ -64,10 +112,23 @@ export class OREntityProjection<Id extends ToString = ContentId, V = unknown> im
       for await (const error of state.tx.addMany([eventKey], options)) {
         if (error) { throw new OperationError('failed to save event', { cause: error }); }
       }
+
+      const author = getEntityEventAuthor(event);
+      if (state.authors && author) {
+        for await (const error of state.authors.setMany([[eventKey, author]], options)) {
+          if (error) { throw new OperationError('failed to save event', { cause: error }); }
+        }
+      }
     } finally {
       await lock.close();
     }
 
+    if (this.changes) {
+      for (const [i, [root, type, entries]] of updates.entries()) {
+        await this.changes.dispatch(toChangeSet(eventKey, root, type, entries, deletedByEntity[i]), options);
+      }
+    }
+
     return state;
   }
 
@@ -75,35 +136,32 @@ export class OREntityProjection<Id extends ToString = ContentId, V = unknown> im
     state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
   ): Promise<Error | undefined> {
     const eventKey = await this.getEventKey(event, options);
-    const root = event.type === EntityEventType.Update ? event.root as Id : eventKey;
-
-    if (root === void 0) {
-      return new TypeError('missing root');
-    }
-    if (event.type === EntityEventType.Update && !event.payload.ops.length) {
-      return new TypeError('empty operation');
+    if (event.type === EntityEventType.Tx) {
+      const txError = await this.validateTx(event, options);
+      if (txError) {
+        return txError;
+      }
     }
 
-    // verify that set operations are well formed; attribute-tags and parent indices must be in asc order
-    let lastAttr = '', lastSortKey = '';
+    const entities = splitEntityEvent(event, eventKey);
     const dependencyIndices = new Set<number>();
-    for (const [attr, tag, value, ...parents] of event.payload.ops) {
-      let isValid = !!attr && (!!parents.length || value !== null) &&
-        (lastAttr < attr || (lastAttr === attr && lastSortKey < tag));
-      lastAttr = attr;
-      lastSortKey = tag;
-
-      let lastParent = -1;
-      for (const parent of parents) {
-        if (event.link?.[parent] === void 0 || lastParent >= parent) {
-          isValid = false;
-          break;
-        }
-        dependencyIndices.add(parent);
-        lastParent = parent;
+    for (const [root, entityEvent] of entities) {
+      const opsError = validateOps(root, entityEvent, dependencyIndices);
+      if (opsError) {
+        return opsError;
       }
-      if (!isValid) {
-        return new TypeError(`invalid operation: "${attr}"`);
+    }
+
+    // verify author signature
+    const signatureError = await this.verifier?.verify(event, options);
+    if (signatureError) {
+      return signatureError;
+    }
+
+    for (const [, entityEvent] of entities) {
+      const entityError = await this.validateEntity(state, entityEvent, options);
+      if (entityError) {
+        return entityError;
       }
     }
 
@@ -122,4 +180,176 @@ export class OREntityProjection<Id extends ToString = ContentId, V = unknown> im
       return new OperationError('missing dependencies', { code: ERR_DEPENDENCY_MISSING, detail: missingKeys });
     }
   }
+
+  /** Validates the structure of given transaction event, and the Ids of its new entities and references to them. */
+  protected async validateTx(event: EntityEvent<Id, V>, options?: AbortOptions): Promise<Error | undefined> {
+    const entries = event.payload.tx || [];
+    if (event.root !== void 0 || event.payload.ops.length || !entries.length || entries.some(({ type }) =>
+      type !== EntityEventType.New && type !== EntityEventType.Update && type !== EntityEventType.Delete
+    )) {
+      return new TypeError('invalid transaction');
+    }
+
+    const roots = await getEntityTxRoots(event, this.getEventKey, options);
+    const rootStrs = new Set<string>();
+    for (const [index, { root, refs, payload }] of entries.entries()) {
+      const rootStr = `${root}`;
+      if (root === void 0 || rootStr !== `${roots[index]}` || rootStrs.has(rootStr)) {
+        return new TypeError('invalid root');
+      }
+      rootStrs.add(rootStr);
+
+      // references must be to new entities, and set as the only value of the attribute
+      for (const [attr, refIndex] of Object.entries(refs || {})) {
+        const values = payload.ops.filter(([opAttr, , value]) => opAttr === attr && value !== null);
+        if (
+          entries[refIndex]?.type !== EntityEventType.New || values.length !== 1 ||
+          values[0][1] !== EVENT_TIME_TAG || `${values[0][2]}` !== `${roots[refIndex]}`
+        ) {
+          return new TypeError(`invalid reference: "${attr}"`);
+        }
+      }
+    }
+  }
+
+  /** Validates given event on an entity against the policy, encryption and schema of its type. */
+  protected async validateEntity(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
+  ): Promise<Error | undefined> {
+    // verify that author is authorized by the policy of entity type
+    const policyError = await this.policies.get(event.payload.type ?? '')?.authorize(state, event, options);
+    if (policyError) {
+      return policyError;
+    }
+
+    // verify that values are encrypted
+    let ops: readonly EntityEventOp<V>[] | undefined = event.payload.ops;
+    if (this.cipher) {
+      for (const [attr, tag, value] of ops) {
+        if (value === null || attr === ENTITY_TOMBSTONE_ATTR) { continue; }
+        if (attr === ENTITY_KEY_ATTR ? (event.type !== EntityEventType.New || value !== tag) : !isEncryptedValue(value)) {
+          return new TypeError(`invalid encrypted value: "${attr}"`);
+        }
+      }
+      try {
+        ops = await this.decryptOps(this.cipher, ops, options);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) { return error as Error; }
+        ops = void 0; // values cannot be validated without key
+      }
+    }
+
+    // verify that operations conform to the schema of entity type
+    const schema = this.schemas.get(event.payload.type ?? '');
+    return (schema && ops && validateEntityEventOps(schema, ops)) || void 0;
+  }
+
+  /** Returns given operations with decrypted values. */
+  protected async decryptOps(
+    cipher: EntityCipher<V>, ops: readonly EntityEventOp<V>[], options?: AbortOptions
+  ): Promise<EntityEventOp<V>[]> {
+    const results: EntityEventOp<V>[] = [];
+    for (const [attr, tag, value, ...parents] of ops) {
+      const decrypted = value === null || attr === ENTITY_KEY_ATTR || attr === ENTITY_TOMBSTONE_ATTR ?
+        value : await cipher.decrypt(value, attr, tag, options);
+      results.push([attr, tag, decrypted, ...parents]);
+    }
+    return results;
+  }
+}
+
+/** Returns the entries to update to the store for given event on an entity, and the keys of new entries. */
+function toEntries<Id, V>(
+  eventKey: Id, root: Id, event: EntityEvent<Id, V>
+): [entries: [key: EntityAttrKey<Id>, value?: V][], newKeys: EntityAttrKey<Id>[]] {
+  const parentKeys = event.link || [];
+  const entries: [key: EntityAttrKey<Id>, value?: V][] = [];
+  const newKeys: EntityAttrKey<Id>[] = [];
+  for (const [attr, tag, value, ...parents] of event.payload.ops) {
+    for (const parent of parents) {
+      const parentKey = parentKeys[parent];
+      if (parentKey !== void 0) {
+        entries.push([[root, attr, tag, parentKey]]);
+      }
+    }
+    if (value !== null) {
+      const key = [root, attr, resolveEventTimeTag(tag, event.time), eventKey] as const;
+      entries.push([key, value]);
+      newKeys.push(key);
+    }
+  }
+  if (event.type === EntityEventType.Delete) { // mark entity as deleted
+    const key = [root, ENTITY_TOMBSTONE_ATTR, '', eventKey] as const;
+    entries.push([key, true as V]);
+    newKeys.push(key);
+  }
+  return [entries, newKeys];
+}
+
+/**
+ * Verifies that given event on an entity has a root, and its set operations are well formed,
+ * adding the link indices of its dependencies to given set.
+ */
+function validateOps<Id, V>(
+  root: Id | undefined, event: EntityEvent<Id, V>, dependencyIndices: Set<number>
+): Error | undefined {
+  if (root === void 0) {
+    return new TypeError('missing root');
+  }
+  if (event.type === EntityEventType.Update && !event.payload.ops.length) {
+    return new TypeError('empty operation');
+  }
+
+  // attribute-tags and parent indices must be in asc order
+  let lastAttr = '', lastSortKey = '';
+  for (const [attr, tag, value, ...parents] of event.payload.ops) {
+    let isValid = !!attr && (!!parents.length || value !== null) &&
+      (value === null || event.type !== EntityEventType.Delete) && // deletion must not add values
+      (lastAttr < attr || (lastAttr === attr && lastSortKey < tag));
+    if (attr === ENTITY_KEY_ATTR) { // entity key can only be set on creation
+      isValid &&= event.type === EntityEventType.New && value === tag && !parents.length;
+    } else if (attr === ENTITY_TOMBSTONE_ATTR) { // tombstones can only be reverted or restored, such as by undo
+      isValid &&= event.type === EntityEventType.Update && tag === '' && (value === null || value === true);
+    }
+    lastAttr = attr;
+    lastSortKey = tag;
+
+    let lastParent = -1;
+    for (const parent of parents) {
+      if (event.link?.[parent] === void 0 || lastParent >= parent) {
+        isValid = false;
+        break;
+      }
+      dependencyIndices.add(parent);
+      lastParent = parent;
+    }
+    if (!isValid) {
+      return new TypeError(`invalid operation: "${attr}"`);
+    }
+  }
+}
+
+/** Builds the change set from given updated and deleted entries of an event. */
+function toChangeSet<Id, V>(
+  txId: Id, id: Id, type: string | undefined,
+  entries: readonly (readonly [key: EntityAttrKey<Id>, value?: V])[],
+  deleted: readonly (readonly [key: EntityAttrKey<Id>, value: V])[],
+): EntityChangeSet<Id, V> {
+  const changes = new Map<string, { attr: string, added: [string, V][], removed: [string, V, Id][] }>();
+  const getChange = (attr: string) => {
+    let change = changes.get(attr);
+    if (!change) {
+      changes.set(attr, change = { attr, added: [], removed: [] });
+    }
+    return change;
+  };
+  for (const [[, attr, tag, txId], value] of deleted) {
+    getChange(attr).removed.push([tag, value, txId as Id]);
+  }
+  for (const [[, attr, tag], value] of entries) {
+    if (value !== void 0) { getChange(attr).added.push([tag, value]); }
+  }
+
+  const attrs: EntityAttrChange<Id, V>[] = [...changes.values()].sort((a, b) => a.attr < b.attr ? -1 : 1);
+  return { txId, id, type, attrs };
 }
@@ -1,3 +1,9 @@
 export * from './interface.ts';
 export * from './command.ts';
+export * from './encryption.ts';
 export * from './event.ts';
+export * from './policy.ts';
+export * from './schema.ts';
+export * from './signature.ts';
+export * from './tx.ts';
+export * from './undo.ts';
@@ -1,6 +1,7 @@
-import { StandardCommand, StandardEvent } from '../action.ts';
+import { StandardAction, StandardCommand, StandardEvent } from '../action.ts';
 import { AggregateCommandHandler, AggregateProjection } from '../aggregate.ts';
 import { EntityStore, ReadonlyEntityStore } from '../store.ts';
+import { EntityEventSignature } from './signature.ts';
 
 /** {@link AggregateCommandHandler} for a CRDT entity. */
 export type EntityCommandHandler<Id, V> =
@@ -14,18 +15,34 @@ export type EntityProjection<Id, V> =
 export enum EntityCommandType {
   /** Update entity attributes. */
   Update = 'ENTITY_OPS',
+
+  /** Delete entity. */
+  Delete = 'ENTITY_DEL',
+
+  /** Apply commands on multiple entities in a single event. */
+  Tx = 'ENTITY_TX',
 }
 
 /** Command for a CRDT entity. */
-export type EntityCommand<Id, V> = StandardCommand<EntityCommandType, EntityCommandPayload<V>, Id>;
+export type EntityCommand<Id, V> = StandardCommand<EntityCommandType, EntityCommandPayload<V, Id>, Id>;
 
 /** Command payload for a CRDT entity. */
-export interface EntityCommandPayload<V> {
+export interface EntityCommandPayload<V, Id = unknown> {
   /** Commands on attributes. */
   readonly cmd: { readonly [attr: string]: EntityAttrCommand<V>; };
 
   /** Type of the entity. */
   readonly type?: string;
+
+  /** Commands on entities to apply in a single event, for a {@link EntityCommandType.Tx} command. */
+  readonly tx?: readonly EntityTxCommand<Id, V>[];
+}
+
+/** Command on an entity in a transaction. Entities without root are created by the transaction. */
+export interface EntityTxCommand<Id, V>
+  extends StandardCommand<EntityCommandType.Update | EntityCommandType.Delete, EntityCommandPayload<V, Id>, Id> {
+  /** Sets given attributes to the Ids of entities created at given indices of the transaction. */
+  readonly refs?: { readonly [attr: string]: number; };
 }
 
 /** Command payload for a CRDT entity attribute. */
@@ -39,11 +56,58 @@ export interface EntityAttrCommand<V> {
   /** Sets attribute to specified value, removing all existing values. */
   readonly set?: V;
 
+  /**
+   * Whether to `set` value with last-writer-wins register semantics.
+   * Concurrent values are ordered by event time, then by event key, such that the latest value is read first.
+   * As event time is only advanced past the times of parent events, concurrent events often share the same time,
+   * in which case the value of the smallest event key wins rather than the last written value.
+   */
+  readonly lww?: boolean;
+
   /**
    * Deletes given number of values at or after specified list index, and
    * inserts given list of values before specified index.
    */
   readonly splice?: readonly [index: string, deleteCount: number, ...values: V[]];
+
+  /**
+   * Moves the list element at given index to before another index, or to the end if `''`.
+   * Of concurrent moves of the same element, only the latest move takes effect.
+   */
+  readonly move?: readonly [index: string, before: string];
+
+  /**
+   * Deletes given number of characters at or after specified text position, and
+   * inserts given string before specified position. Position `''` refers to the end of text.
+   */
+  readonly text?: readonly [pos: string, deleteCount: number, insert?: string];
+
+  /**
+   * Adds a formatting mark of given name and value (defaults to `true`) to the list elements or text characters
+   * positioned within given inclusive range. A `false` value removes the mark.
+   */
+  readonly mark?: readonly [start: string, end: string, name: string, value?: V];
+
+  /**
+   * Moves entity under given parent entity Id, in the tree of entities linked by this attribute.
+   * Of concurrent moves, the latest move takes effect unless it would introduce a cycle.
+   */
+  readonly parent?: V;
+
+  /**
+   * Resolves conflicting values of attribute by removing all existing values other than given value.
+   * The command is rejected if given value is no longer present.
+   */
+  readonly resolve?: V;
+
+  /** Increments attribute as a counter by given amount, or decrements if amount is negative. */
+  readonly inc?: number;
+
+  /** Adds given values back at their original tags, such as to revert their deletion. */
+  readonly restore?: readonly (readonly [tag: string, value: V])[];
+
+  /** Removes values at given tags added by given transactions, such as to revert their addition. */
+  readonly revert?: readonly (readonly [tag: string, txId: string])[];
 }
 
 /** Event type for a CRDT entity. */
@@ -53,13 +117,29 @@ export enum EntityEventType {
 
   /** Updates entity attributes. */
   Update = 'ENTITY_OPS',
+
+  /**
+   * Deletes entity, removing all its observed attribute values and leaving a tombstone.
+   * Deletion wins: entities with a tombstone stay deleted even if updated concurrently or afterwards,
+   * until the tombstone itself is reverted, such as by undo.
+   */
+  Delete = 'ENTITY_DEL',
+
+  /**
+   * Applies events on multiple entities together. The transaction is validated as a whole,
+   * and its changes are written in one batch per entity type, which is atomic if supported by the store.
+   */
+  Tx = 'ENTITY_TX',
 }
 
 /** Event for a CRDT entity. */
-export type EntityEvent<Id, V> = StandardEvent<EntityEventType, EntityEventPayload<V>, Id>;
+export type EntityEvent<Id, V> = StandardEvent<EntityEventType, EntityEventPayload<V, Id>, Id> & {
+  /** Signature of the event by its author, if signed. */
+  readonly sig?: EntityEventSignature;
+};
 
 /** Event payload for a CRDT entity. */
-export interface EntityEventPayload<V> {
+export interface EntityEventPayload<V, Id = unknown> {
   /**
    * Operations to upsert tagged values into given attributes, and delete existing values at given parent link indices.
    */
@@ -67,7 +147,48 @@ export interface EntityEventPayload<V> {
 
   /** Type of the entity. */
   readonly type?: string;
+
+  /** Events on entities to apply together, for a {@link EntityEventType.Tx} event with no operation of its own. */
+  readonly tx?: readonly EntityTxEvent<Id, V>[];
+}
+
+/** Event on an entity in a transaction, which shares the links, time and key of the transaction. */
+export interface EntityTxEvent<Id, V> extends StandardAction<
+  EntityEventType.New | EntityEventType.Update | EntityEventType.Delete, EntityEventPayload<V, Id>, Id
+> {
+  /** Entity Id. Ids of new entities are derived from the transaction by {@link getEntityTxRoots}. */
+  readonly root: Id;
+
+  /** Attributes set to the Ids of entities created at given indices of the transaction. */
+  readonly refs?: { readonly [attr: string]: number; };
 }
 
 /** Operation in a CRDT entity event. */
 export type EntityEventOp<V> = readonly [attr: string, tag: string, value: V | null, ...parentIdxToDelete: number[]];
+
+/** Changes to an entity made by a reduced event. */
+export interface EntityChangeSet<Id, V> {
+  /** Key of the event. */
+  readonly txId: Id;
+
+  /** Entity Id. */
+  readonly id: Id;
+
+  /** Type of the entity. */
+  readonly type?: string;
+
+  /** Changes by attribute, in attribute order. */
+  readonly attrs: readonly EntityAttrChange<Id, V>[];
+}
+
+/** Changes to an entity attribute. */
+export interface EntityAttrChange<Id, V> {
+  /** Attribute name. */
+  readonly attr: string;
+
+  /** Added tagged values. */
+  readonly added: readonly (readonly [tag: string, value: V])[];
+
+  /** Removed tagged values, with Ids of the transactions that added them. */
+  readonly removed: readonly (readonly [tag: string, value: V, txId: Id])[];
+}
@@ -0,0 +1,109 @@
+import { EntityAttrKey, ReadonlyTripleStore } from '@mithic/collections';
+import {
+  AbortOptions, ERR_DEPENDENCY_MISSING, MaybeAsyncIterableIterator, MaybePromise, OperationError, ToString
+} from '@mithic/commons';
+import { getCID } from '../defaults.ts';
+import { ReadonlyEntityStore } from '../store.ts';
+import { EntityEvent, EntityEventType } from './interface.ts';
+import { getEntityEventAuthor } from './signature.ts';
+import { resolveEntityTxRoots } from './tx.ts';
+
+/**
+ * Access control policy of entity events, evaluated by {@link OREntityProjection.validate} on every replica.
+ * To be deterministic, a policy should only depend on the event and the causal past of the transactions it links to.
+ */
+export interface EntityPolicy<Id, V> {
+  /** Returns an error if given event is not authorized. */
+  authorize(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
+  ): MaybePromise<Error | undefined>;
+}
+
+/**
+ * {@link EntityPolicy} that only allows authors in the access control list attribute of an entity to update it.
+ * An event is authorized if it links to a transaction that granted its author access, and the grant is not revoked
+ * by events applied so far, so that revocations in the causal past of the event, or already known, apply to it.
+ * Authorization takes a single lookup of the list, without traversing history.
+ * Entities are created with no restriction, and should add their creators to the list.
+ *
+ * An event concurrent with a revocation is accepted by replicas that validate it before applying the revocation,
+ * but rejected by replicas that apply the revocation first. Within this window, replicas may diverge on such events,
+ * so that revocations should not be relied upon to reject concurrent events of the revoked author.
+ */
+export class EntityAclPolicy<Id extends ToString, V> implements EntityPolicy<Id, V> {
+  public constructor(
+    /** Attribute of the set of authorized authors. */
+    protected readonly attr = 'acl',
+    /** Function to get the author of an event. */
+    protected readonly getAuthor: (event: EntityEvent<Id, V>) => string | undefined = getEntityEventAuthor,
+    /** Function to get key of event, used to derive Ids of entities created by linked transactions. */
+    protected readonly getEventKey: (event: EntityEvent<Id, V>, options?: AbortOptions) => MaybePromise<Id> = getCID,
+  ) {
+  }
+
+  public async authorize(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
+  ): Promise<Error | undefined> {
+    if (event.type === EntityEventType.New) { return; }
+
+    const author = this.getAuthor(event);
+    if (author === void 0 || event.root === void 0 || !event.link?.length) {
+      return new TypeError('unauthorized');
+    }
+
+    const links = new Set(event.link.map((link) => `${link}`));
+    for await (const [[, , , txId], value] of this.grants(state.store(event.payload.type), event.root, options)) {
+      if (value === author && links.has(`${txId}`)) { return; }
+    }
+
+    // the grant may not have been applied yet
+    const missingKeys: Id[] = [];
+    let i = 0;
+    for await (const exist of state.tx.hasMany(event.link, options)) {
+      if (!exist) { missingKeys.push(event.link[i]); }
+      ++i;
+    }
+    if (missingKeys.length) {
+      return new OperationError('missing dependencies', { code: ERR_DEPENDENCY_MISSING, detail: missingKeys });
+    }
+    return new TypeError('unauthorized');
+  }
+
+  /**
+   * Returns given event with links to the transactions that granted given author access to its entities, if found.
+   * This should be called before signing the event.
+   */
+  public async link(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, author: string, options?: AbortOptions
+  ): Promise<EntityEvent<Id, V>> {
+    const entities = event.type === EntityEventType.Tx ?
+      (event.payload.tx || []).filter(({ type }) => type !== EntityEventType.New) :
+      event.type !== EntityEventType.New && event.root !== void 0 ? [event as { root: Id; payload: { type?: string } }] :
+        [];
+
+    const link = [...(event.link || [])];
+    const links = new Set(link.map((link) => `${link}`));
+    outer: for (const { root, payload } of entities) {
+      let grantTxId: Id | undefined;
+      for await (const [[, , , txId], value] of this.grants(state.store(payload.type), root, options)) {
+        if (value !== author || txId === void 0) { continue; }
+        if (links.has(`${txId}`)) { continue outer; }
+        grantTxId ??= txId;
+      }
+      if (grantTxId !== void 0) {
+        link.push(grantTxId);
+        links.add(`${grantTxId}`);
+      }
+    }
+    if (link.length === (event.link?.length ?? 0)) { return event; }
+    return event.type === EntityEventType.Tx ?
+      resolveEntityTxRoots({ ...event, link }, this.getEventKey, options) : { ...event, link };
+  }
+
+  /** Iterates the access control list entries of given entity. */
+  protected grants(
+    store: ReadonlyTripleStore<Id, V>, root: Id, options?: AbortOptions
+  ): MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]> {
+    return store.entries({ signal: options?.signal, lower: [root, this.attr], upper: [root, this.attr], upperOpen: false });
+  }
+}
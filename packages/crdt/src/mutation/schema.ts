@@ -0,0 +1,145 @@
+import { ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR } from '../store.ts';
+import { markAttr } from '../utils/index.ts';
+import { EntityAttrCommand, EntityCommandPayload, EntityEventOp } from './interface.ts';
+
+/** Schema of an entity type. */
+export interface EntitySchema<V> {
+  /** Schemas of attributes by name. */
+  readonly attrs: { readonly [attr: string]: EntityAttrSchema<V>; };
+
+  /** Whether attributes not defined in schema are allowed. Defaults to `false`. */
+  readonly open?: boolean;
+}
+
+/** Schema of an entity attribute. */
+export interface EntityAttrSchema<V> {
+  /** Kind of attribute. */
+  readonly kind: EntityAttrKind;
+
+  /** Expected `typeof` of values. Defaults to any type. */
+  readonly type?: EntityAttrValueType;
+
+  /** Custom validation function of values. */
+  readonly validate?: (value: V) => boolean;
+}
+
+/** Kind of entity attribute, which determines its cardinality and the commands allowed on it. */
+export enum EntityAttrKind {
+  /** Single value, updated by `set`, `resolve` or `parent`. */
+  Single = 'single',
+
+  /** Set of values, updated by `add` or `del`. */
+  Set = 'set',
+
+  /** List of values, updated by `splice`, `move` or `mark`. */
+  List = 'list',
+
+  /** Counter, updated by `inc`. */
+  Counter = 'counter',
+
+  /** Collaborative text, updated by `text` or `mark`. */
+  Text = 'text',
+}
+
+/** Value type of an entity attribute. */
+export type EntityAttrValueType = 'string' | 'number' | 'boolean' | 'bigint' | 'object';
+
+/** Commands allowed by each attribute kind, in addition to `del: true`, `restore` and `revert`. */
+const KIND_COMMANDS: Record<EntityAttrKind, readonly (keyof EntityAttrCommand<unknown>)[]> = {
+  [EntityAttrKind.Single]: ['set', 'lww', 'resolve', 'parent'],
+  [EntityAttrKind.Set]: ['add', 'del'],
+  [EntityAttrKind.List]: ['splice', 'move', 'mark'],
+  [EntityAttrKind.Counter]: ['inc'],
+  [EntityAttrKind.Text]: ['text', 'mark'],
+};
+
+/** Validates given entity attribute commands against given schema. Returns an error if invalid. */
+export function validateEntityAttrCommands<V>(
+  schema: EntitySchema<V>, cmds: EntityCommandPayload<V>['cmd']
+): Error | undefined {
+  for (const [attr, cmd] of Object.entries(cmds)) {
+    if (attr === ENTITY_TOMBSTONE_ATTR) { continue; }
+
+    const attrSchema = schema.attrs[attr];
+    if (!attrSchema) {
+      if (schema.open) { continue; }
+      return new TypeError(`unknown attribute: "${attr}"`);
+    }
+
+    const values: unknown[] = [];
+    for (const [key, value] of Object.entries(cmd) as [keyof EntityAttrCommand<V>, unknown][]) {
+      if (value === void 0 || key === 'restore' || key === 'revert' || (key === 'del' && value === true)) {
+        continue;
+      }
+      if (!KIND_COMMANDS[attrSchema.kind].includes(key)) {
+        return new TypeError(`invalid command for ${attrSchema.kind} attribute: "${attr}"`);
+      }
+      if (key === 'set' || key === 'resolve' || key === 'parent') {
+        values.push(value);
+      } else if (key === 'add' || key === 'del') {
+        values.push(...value as V[]);
+      } else if (key === 'splice') {
+        values.push(...(value as EntityAttrCommand<V>['splice'])!.slice(2));
+      }
+    }
+
+    for (const value of values) {
+      if (!isValidValue(attrSchema, value as V)) {
+        return new TypeError(`invalid value for attribute: "${attr}"`);
+      }
+    }
+  }
+}
+
+/** Validates given entity event operations against given schema. Returns an error if invalid. */
+export function validateEntityEventOps<V>(
+  schema: EntitySchema<V>, ops: readonly EntityEventOp<V>[]
+): Error | undefined {
+  const singleAttrs = new Set<string>();
+  for (const [attr, _tag, value] of ops) {
+    if (attr === ENTITY_TOMBSTONE_ATTR || attr === ENTITY_KEY_ATTR) { continue; }
+
+    const attrSchema = schema.attrs[attr];
+    if (!attrSchema) {
+      if (schema.open || isMarkAttr(schema, attr)) { continue; }
+      return new TypeError(`unknown attribute: "${attr}"`);
+    }
+    if (value === null) { continue; }
+
+    let isValid: boolean;
+    switch (attrSchema.kind) {
+      case EntityAttrKind.Counter:
+        isValid = typeof value === 'number';
+        break;
+      case EntityAttrKind.Text: // text runs or deletion counts
+        isValid = typeof value === 'string' || typeof value === 'number';
+        break;
+      default:
+        isValid = isValidValue(attrSchema, value);
+    }
+
+    // single values and counters can only have 1 value per event
+    if (attrSchema.kind === EntityAttrKind.Single || attrSchema.kind === EntityAttrKind.Counter) {
+      isValid = isValid && !singleAttrs.has(attr);
+      singleAttrs.add(attr);
+    }
+
+    if (!isValid) {
+      return new TypeError(`invalid operation: "${attr}"`);
+    }
+  }
+}
+
+function isValidValue<V>(schema: EntityAttrSchema<V>, value: V): boolean {
+  return (schema.type === void 0 || typeof value === schema.type) && (schema.validate?.(value) ?? true);
+}
+
+/** Returns if given attribute is the mark attribute of a list or text attribute in schema. */
+function isMarkAttr<V>(schema: EntitySchema<V>, attr: string): boolean {
+  for (const [name, { kind }] of Object.entries(schema.attrs)) {
+    if ((kind === EntityAttrKind.List || kind === EntityAttrKind.Text) && markAttr(name) === attr) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,102 @@
+import { AbortOptions } from '@mithic/commons';
+import { defaultEncode } from '../defaults.ts';
+import { EntityEvent } from './interface.ts';
+
+/** Supported signature algorithms of entity events. */
+export type EntityEventSignatureAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+/** Signature of an entity event by its author. */
+export interface EntityEventSignature {
+  /** Signature algorithm. */
+  readonly alg: EntityEventSignatureAlgorithm;
+
+  /** Raw public key of the author. */
+  readonly key: Uint8Array;
+
+  /** Signature of the encoded event without this signature. */
+  readonly sig: Uint8Array;
+}
+
+/** Signer of entity events with a WebCrypto key pair. */
+export class EntityEventSigner {
+  public constructor(
+    /** Key pair of the author, which can be an Ed25519 or ECDSA P-256 key pair with exportable public key. */
+    protected readonly keyPair: CryptoKeyPair,
+    /** Function to encode an event to bytes for signing. */
+    protected readonly encode: <E>(event: E) => Uint8Array = defaultEncode,
+  ) {
+  }
+
+  /** Returns a copy of given event signed by the author. */
+  public async sign<Id, V>(event: EntityEvent<Id, V>, options?: AbortOptions): Promise<EntityEvent<Id, V>> {
+    const alg = getSignatureAlgorithm(this.keyPair.privateKey.algorithm);
+    const key = new Uint8Array(await crypto.subtle.exportKey('raw', this.keyPair.publicKey));
+    options?.signal?.throwIfAborted();
+    const sig = new Uint8Array(await crypto.subtle.sign(
+      getSignParams(alg), this.keyPair.privateKey, this.encode(withoutSignature(event))
+    ));
+    return { ...event, sig: { alg, key, sig } };
+  }
+}
+
+/** Verifier of entity event signatures. */
+export class EntityEventVerifier {
+  public constructor(
+    /** Whether to reject unsigned events. */
+    protected readonly required = false,
+    /** Function to encode an event to bytes for signing. */
+    protected readonly encode: <E>(event: E) => Uint8Array = defaultEncode,
+  ) {
+  }
+
+  /** Verifies the signature of given event. Returns an error if it is invalid. */
+  public async verify<Id, V>(event: EntityEvent<Id, V>, options?: AbortOptions): Promise<Error | undefined> {
+    if (!event.sig) {
+      return this.required ? new TypeError('missing signature') : void 0;
+    }
+
+    const { alg, key, sig } = event.sig;
+    if (!isSignatureAlgorithm(alg) || !(key instanceof Uint8Array) || !(sig instanceof Uint8Array)) {
+      return new TypeError('invalid signature');
+    }
+    try {
+      const publicKey = await crypto.subtle.importKey('raw', key, getKeyParams(alg), false, ['verify']);
+      options?.signal?.throwIfAborted();
+      if (await crypto.subtle.verify(getSignParams(alg), publicKey, sig, this.encode(withoutSignature(event)))) {
+        return;
+      }
+    } catch (error) {
+      if (options?.signal?.aborted) { throw error; }
+    }
+    return new TypeError('invalid signature');
+  }
+}
+
+/** Returns the author of given signed event, which is the base64url-encoded public key, or undefined if unsigned. */
+export function getEntityEventAuthor<Id, V>(event: EntityEvent<Id, V>): string | undefined {
+  if (!event.sig) { return; }
+  return btoa(String.fromCharCode(...event.sig.key)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function withoutSignature<Id, V>(event: EntityEvent<Id, V>): EntityEvent<Id, V> {
+  const { sig: _sig, ...unsigned } = event;
+  return unsigned;
+}
+
+function isSignatureAlgorithm(alg: unknown): alg is EntityEventSignatureAlgorithm {
+  return alg === 'Ed25519' || alg === 'ECDSA-P256';
+}
+
+function getSignatureAlgorithm(algorithm: KeyAlgorithm): EntityEventSignatureAlgorithm {
+  if (algorithm.name === 'Ed25519') { return 'Ed25519'; }
+  if (algorithm.name === 'ECDSA' && (algorithm as EcKeyAlgorithm).namedCurve === 'P-256') { return 'ECDSA-P256'; }
+  throw new TypeError(`unsupported key algorithm: ${algorithm.name}`);
+}
+
+function getKeyParams(alg: EntityEventSignatureAlgorithm): AlgorithmIdentifier | EcKeyImportParams {
+  return alg === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', namedCurve: 'P-256' };
+}
+
+function getSignParams(alg: EntityEventSignatureAlgorithm): AlgorithmIdentifier | EcdsaParams {
+  return alg === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' };
+}
@@ -0,0 +1,85 @@
+import { AbortOptions, MaybePromise } from '@mithic/commons';
+import { EntityEvent, EntityEventOp, EntityEventType, EntityTxEvent } from './interface.ts';
+
+/**
+ * Splits given event into events on each entity with their Ids, given the event key.
+ * Events on entities of a transaction share its links, time, nonce and signature.
+ */
+export function splitEntityEvent<Id, V>(event: EntityEvent<Id, V>, eventKey: Id): [root: Id, EntityEvent<Id, V>][] {
+  if (event.type !== EntityEventType.Tx) {
+    return [[event.type === EntityEventType.New ? eventKey : event.root as Id, event]];
+  }
+  return (event.payload.tx || []).map(({ type, root, payload }) => [root, { ...event, type, root, payload }]);
+}
+
+/**
+ * Returns the Ids of entities in given transaction event.
+ * Ids of new entities are derived from the key of the transaction without their own Ids and references to them,
+ * so that entities created by the same transaction can reference each other.
+ */
+export async function getEntityTxRoots<Id, V>(
+  event: EntityEvent<Id, V>,
+  getEventKey: (event: EntityEvent<Id, V>, options?: AbortOptions) => MaybePromise<Id>,
+  options?: AbortOptions,
+): Promise<Id[]> {
+  const entries = event.payload.tx || [];
+  const { sig: _sig, ...unsigned } = event;
+  const txKey = await getEventKey({
+    ...unsigned,
+    payload: { ...event.payload, tx: entries.map(withoutNewRefs) as EntityTxEvent<Id, V>[] },
+  }, options);
+
+  const roots: Id[] = [];
+  for (const [index, { type, root, payload }] of entries.entries()) {
+    roots.push(type !== EntityEventType.New ? root : await getEventKey({
+      type: EntityEventType.New,
+      link: [txKey],
+      payload: { ops: [], ...(payload.type !== void 0 ? { type: payload.type } : {}) },
+      nonce: `${index}`,
+    }, options));
+  }
+  return roots;
+}
+
+/**
+ * Returns given transaction event with Ids of new entities and references to them derived by {@link getEntityTxRoots}.
+ * This should be called whenever the transaction is modified before signing, e.g. when adding links.
+ */
+export async function resolveEntityTxRoots<Id, V>(
+  event: EntityEvent<Id, V>,
+  getEventKey: (event: EntityEvent<Id, V>, options?: AbortOptions) => MaybePromise<Id>,
+  options?: AbortOptions,
+): Promise<EntityEvent<Id, V>> {
+  const roots = await getEntityTxRoots(event, getEventKey, options);
+  return {
+    ...event,
+    payload: {
+      ...event.payload,
+      tx: (event.payload.tx || []).map((entry, index) => ({
+        ...entry,
+        root: roots[index],
+        payload: {
+          ...entry.payload,
+          ops: entry.payload.ops.map(([attr, tag, value, ...parents]): EntityEventOp<V> => [
+            attr, tag, value !== null && entry.refs?.[attr] !== void 0 ? roots[entry.refs[attr]] as unknown as V : value,
+            ...parents,
+          ]),
+        },
+      })),
+    },
+  };
+}
+
+/** Returns given transaction entry without the Id of new entity, and with references replaced by their indices. */
+function withoutNewRefs<Id, V>({ root, refs, payload, ...entry }: EntityTxEvent<Id, V>): Partial<EntityTxEvent<Id, V>> {
+  return {
+    ...entry,
+    ...(entry.type !== EntityEventType.New ? { root } : {}),
+    ...(refs ? { refs } : {}),
+    payload: {
+      ...payload,
+      ops: payload.ops.map(([attr, tag, value, ...parents]): EntityEventOp<V> =>
+        [attr, tag, value !== null && refs?.[attr] !== void 0 ? refs[attr] as V : value, ...parents]),
+    },
+  };
+}
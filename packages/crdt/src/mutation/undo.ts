@@ -0,0 +1,203 @@
+import { EntityAttrKey } from '@mithic/collections';
+import { AbortOptions, ContentId, MaybePromise, ToString } from '@mithic/commons';
+import { getCID } from '../defaults.ts';
+import { ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, ReadonlyEntityStore } from '../store.ts';
+import { resolveEventTimeTag } from '../utils/index.ts';
+import { OREntityCommandHandler } from './command.ts';
+import {
+  EntityAttrCommand, EntityCommand, EntityCommandHandler, EntityCommandType, EntityEvent, EntityEventType,
+  EntityTxCommand
+} from './interface.ts';
+import { splitEntityEvent } from './tx.ts';
+
+/**
+ * Undo manager of entity commands, which records the inverse of events produced by given command handler.
+ * Compensating commands only revert the values added or deleted by recorded events, leaving concurrent changes intact.
+ * Events must be recorded in their final form, after being signed and stored, before being applied to state,
+ * and each compensating command must be handled and recorded before requesting the next one.
+ */
+export class EntityUndoManager<Id extends ToString = ContentId, V = unknown> implements EntityCommandHandler<Id, V> {
+  protected readonly undoStack: EntityEventInverse<Id, V>[][] = [];
+  protected readonly redoStack: EntityEventInverse<Id, V>[][] = [];
+  protected readonly pending =
+    new WeakMap<EntityCommand<Id, V>, [kind: 'undo' | 'redo', EntityEventInverse<Id, V>[]]>();
+  protected readonly handled = new Map<string, [kind: 'undo' | 'redo', EntityEventInverse<Id, V>[]]>();
+
+  public constructor(
+    /** The underlying command handler. */
+    protected readonly handler: EntityCommandHandler<Id, V> = new OREntityCommandHandler<Id, V>(),
+    /** Function to get key of event. */
+    protected readonly getEventKey: (event: EntityEvent<Id, V>, options?: AbortOptions) => MaybePromise<Id> = getCID,
+    /** Max number of undo steps to keep. */
+    protected readonly limit = 100,
+    /** Function to generate nonce of compensating commands. */
+    protected readonly createNonce: () => string = () => crypto.randomUUID(),
+  ) { }
+
+  /** Returns if there is a change to undo. */
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /** Returns if there is an undone change to redo. */
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Handles given command. The resulting event is to be passed to {@link record} once finalized. */
+  public async handle(
+    state: ReadonlyEntityStore<Id, V>, command: EntityCommand<Id, V>, options?: AbortOptions
+  ): Promise<EntityEvent<Id, V> | undefined> {
+    const event = await this.handler.handle(state, command, options);
+    const pending = this.pending.get(command);
+    this.pending.delete(command);
+    if (event && pending) {
+      this.handled.set(event.nonce!, pending);
+    }
+    return event;
+  }
+
+  /**
+   * Records the inverse of given event from {@link handle}, as stored and before being applied to given state.
+   * Events may be changed after handling, e.g. by signing or time stamping, which changes their keys and tags.
+   * New events clear the redo history, unless they are compensating events from {@link undo} or {@link redo}.
+   */
+  public async record(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, options?: AbortOptions
+  ): Promise<void> {
+    const eventKey = await this.getEventKey(event, options);
+    const inverse = await this.invert(state, event, eventKey, options);
+    const [kind, applied] = (event.nonce !== void 0 && this.handled.get(event.nonce)) || [];
+    if (event.nonce !== void 0) { this.handled.delete(event.nonce); }
+    if (applied) { // restored values have new transaction Id
+      this.remap(applied, eventKey);
+    }
+    if (kind === 'undo') {
+      this.redoStack.push(inverse);
+    } else {
+      this.undoStack.push(inverse);
+      if (this.undoStack.length > this.limit) { this.undoStack.shift(); }
+      if (!kind) { this.redoStack.length = 0; }
+    }
+  }
+
+  /** Returns the compensating command of the last change, to be handled by this manager. */
+  public undo(): EntityCommand<Id, V> | undefined {
+    return this.compensate(this.undoStack.pop(), 'undo');
+  }
+
+  /** Returns the compensating command of the last undone change, to be handled by this manager. */
+  public redo(): EntityCommand<Id, V> | undefined {
+    return this.compensate(this.redoStack.pop(), 'redo');
+  }
+
+  /** Clears the undo and redo history. */
+  public clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.handled.clear();
+  }
+
+  /** Returns the inverses of given event on each of its entities, to be applied to given state. */
+  protected async invert(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, eventKey: Id, options?: AbortOptions
+  ): Promise<EntityEventInverse<Id, V>[]> {
+    const inverses: EntityEventInverse<Id, V>[] = [];
+    for (const [root, entityEvent] of splitEntityEvent(event, eventKey)) {
+      inverses.push(await this.invertEntity(state, entityEvent, root, eventKey, options));
+    }
+    return inverses;
+  }
+
+  /** Returns the inverse of given event on an entity, to be applied to given state. */
+  protected async invertEntity(
+    state: ReadonlyEntityStore<Id, V>, event: EntityEvent<Id, V>, root: Id, eventKey: Id, options?: AbortOptions
+  ): Promise<EntityEventInverse<Id, V>> {
+    const restore: [attr: string, tag: string, value: V, txId: Id][] = [];
+    const revert: [attr: string, tag: string, txId: Id][] = [];
+
+    const deletedKeys: EntityAttrKey<Id>[] = [];
+    for (const [attr, tag, value, ...parents] of event.payload.ops) {
+      if (attr === ENTITY_KEY_ATTR) { continue; } // entity key is kept to decrypt restored values
+      for (const parent of parents) {
+        deletedKeys.push([root, attr, tag, event.link?.[parent]]);
+      }
+      if (value !== null) {
+        revert.push([attr, resolveEventTimeTag(tag, event.time), eventKey]);
+      }
+    }
+    if (event.type === EntityEventType.Delete) {
+      revert.push([ENTITY_TOMBSTONE_ATTR, '', eventKey]);
+    }
+
+    // find existing values to be deleted by event
+    let i = 0;
+    for await (const value of state.store(event.payload.type).getMany(deletedKeys, options)) {
+      const [, attr, tag, txId] = deletedKeys[i++];
+      if (value !== void 0) {
+        restore.push([attr, tag, value, txId!]);
+      }
+    }
+
+    return { root, type: event.payload.type, restore, revert };
+  }
+
+  /** Returns the compensating command of given inverses, which is a transaction if there are multiple entities. */
+  protected compensate(
+    inverses: EntityEventInverse<Id, V>[] | undefined, kind: 'undo' | 'redo'
+  ): EntityCommand<Id, V> | undefined {
+    if (!inverses) { return; }
+
+    const cmds = inverses.map((inverse) => this.compensateEntity(inverse));
+    const command: EntityCommand<Id, V> = cmds.length === 1 ?
+      { ...cmds[0], nonce: this.createNonce() } :
+      { type: EntityCommandType.Tx, nonce: this.createNonce(), payload: { cmd: {}, tx: cmds } };
+    this.pending.set(command, [kind, inverses]);
+    return command;
+  }
+
+  /** Returns the compensating command of given inverse on an entity. */
+  protected compensateEntity(inverse: EntityEventInverse<Id, V>): EntityTxCommand<Id, V> {
+    const cmd: Record<string, { restore: [tag: string, value: V][], revert: [tag: string, txId: string][] }> = {};
+    for (const [attr, tag, value] of inverse.restore) {
+      (cmd[attr] = cmd[attr] || { restore: [], revert: [] }).restore.push([tag, value]);
+    }
+    for (const [attr, tag, txId] of inverse.revert) {
+      (cmd[attr] = cmd[attr] || { restore: [], revert: [] }).revert.push([tag, `${txId}`]);
+    }
+
+    return {
+      type: EntityCommandType.Update,
+      root: inverse.root,
+      payload: { cmd: cmd as Record<string, EntityAttrCommand<V>>, type: inverse.type },
+    };
+  }
+
+  /** Updates references to values restored by given inverses in history to given new transaction Id. */
+  protected remap(applied: EntityEventInverse<Id, V>[], txId: Id): void {
+    for (const inverse of applied) {
+      this.remapEntity(inverse, txId);
+    }
+  }
+
+  /** Updates references to values restored by given inverse on an entity in history to given new transaction Id. */
+  protected remapEntity(applied: EntityEventInverse<Id, V>, txId: Id): void {
+    const restored = new Set(applied.restore.map(([attr, tag, , txId]) => `${attr}#${tag}#${txId}`));
+    for (const inverse of [...this.undoStack, ...this.redoStack].flat()) {
+      if (`${inverse.root}` !== `${applied.root}` || inverse.type !== applied.type) { continue; }
+      for (const entry of inverse.revert) {
+        if (restored.has(`${entry[0]}#${entry[1]}#${entry[2]}`)) {
+          entry[2] = txId;
+        }
+      }
+    }
+  }
+}
+
+/** Inverse of an entity event. */
+interface EntityEventInverse<Id, V> {
+  readonly root: Id;
+  readonly type?: string;
+  readonly restore: readonly (readonly [attr: string, tag: string, value: V, txId: Id])[];
+  readonly revert: readonly [attr: string, tag: string, txId: Id][];
+}
@@ -0,0 +1,129 @@
+import { EntityAttrKey, ReadonlyTripleStore, TripleStore } from '@mithic/collections';
+import { AbortOptions, OperationError } from '@mithic/commons';
+import { EntityStore, ReadonlyEntityStore } from './store.ts';
+
+/** Serializable snapshot of an {@link EntityStore}. */
+export interface EntityStoreSnapshot<Id, V> {
+  /** Head event keys that the snapshot corresponds to. Events after them can be replayed on top of the snapshot. */
+  readonly heads: readonly Id[];
+
+  /** Processed transaction Ids. */
+  readonly tx: readonly Id[];
+
+  /** Triples by entity type. */
+  readonly triples: Readonly<Record<string, readonly EntityTriple<Id, V>[]>>;
+
+  /** Deleted triples by entity type, if history is kept. */
+  readonly history?: Readonly<Record<string, readonly EntityTriple<Id, V>[]>>;
+
+  /** Authors of signed transactions by transaction Id, if tracked. */
+  readonly authors?: readonly (readonly [txId: Id, author: string])[];
+}
+
+/** Entry of an entity triple store. */
+export type EntityTriple<Id, V> = readonly [key: EntityAttrKey<Id>, value: V];
+
+/**
+ * Exports a snapshot of given entity types of given entity store, which corresponds to given head event keys.
+ * Entity types must be given explicitly, as a store may not know all the types of its persisted entities.
+ */
+export async function exportEntityStore<Id, V>(
+  state: ReadonlyEntityStore<Id, V>, heads: Iterable<Id>, types: Iterable<string>, options?: AbortOptions
+): Promise<EntityStoreSnapshot<Id, V>> {
+  const txIds = state.tx[Symbol.asyncIterator] ? state.tx as AsyncIterable<Id> :
+    state.tx[Symbol.iterator] ? state.tx as Iterable<Id> : void 0;
+  if (!txIds) {
+    throw new TypeError('tx set is not iterable');
+  }
+
+  const tx: Id[] = [];
+  for await (const txId of txIds) {
+    options?.signal?.throwIfAborted();
+    tx.push(txId);
+  }
+
+  const triples: Record<string, EntityTriple<Id, V>[]> = {};
+  const history: Record<string, EntityTriple<Id, V>[]> = {};
+  for (const type of types) {
+    triples[type] = await collectTriples(state.store(type), options);
+    const historyStore = state.history?.(type);
+    if (historyStore) {
+      history[type] = await collectTriples(historyStore, options);
+    }
+  }
+
+  const authors: [txId: Id, author: string][] = [];
+  if (state.authors && tx.length) {
+    let i = 0;
+    for await (const author of state.authors.getMany(tx, options)) {
+      if (author !== void 0) { authors.push([tx[i], author]); }
+      ++i;
+    }
+  }
+
+  return {
+    heads: [...heads],
+    tx,
+    triples,
+    ...(Object.keys(history).length ? { history } : {}),
+    ...(state.authors ? { authors } : {}),
+  };
+}
+
+/**
+ * Imports given snapshot into given entity store, and returns the head event keys that the snapshot corresponds to.
+ * Deleted triples are only imported if the store keeps history, and authors if the store tracks them.
+ */
+export async function importEntityStore<Id, V>(
+  state: EntityStore<Id, V>, snapshot: EntityStoreSnapshot<Id, V>, options?: AbortOptions
+): Promise<Id[]> {
+  if (
+    !Array.isArray(snapshot?.heads) || !Array.isArray(snapshot.tx) || typeof snapshot.triples !== 'object' ||
+    (snapshot.authors !== void 0 && !Array.isArray(snapshot.authors))
+  ) {
+    throw new TypeError('invalid snapshot');
+  }
+
+  for (const [type, entries] of Object.entries(snapshot.triples)) {
+    await saveTriples(state.store(type), entries, options);
+  }
+  for (const [type, entries] of Object.entries(snapshot.history || {})) {
+    const historyStore = state.history?.(type);
+    if (historyStore) {
+      await saveTriples(historyStore, entries, options);
+    }
+  }
+
+  if (state.authors && snapshot.authors?.length) {
+    for await (const error of state.authors.setMany(snapshot.authors, options)) {
+      if (error) { throw new OperationError('failed to import snapshot', { cause: error }); }
+    }
+  }
+
+  for await (const error of state.tx.addMany(snapshot.tx, options)) {
+    if (error) { throw new OperationError('failed to import snapshot', { cause: error }); }
+  }
+
+  return [...snapshot.heads];
+}
+
+async function collectTriples<Id, V>(
+  store: ReadonlyTripleStore<Id, V>, options?: AbortOptions
+): Promise<EntityTriple<Id, V>[]> {
+  const entries: EntityTriple<Id, V>[] = [];
+  for await (const entry of store.entries({ signal: options?.signal })) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+async function saveTriples<Id, V>(
+  store: TripleStore<Id, V>, entries: readonly EntityTriple<Id, V>[], options?: AbortOptions
+): Promise<void> {
+  if (!Array.isArray(entries)) {
+    throw new TypeError('invalid snapshot');
+  }
+  for await (const error of store.updateMany(entries, options)) {
+    if (error) { throw new OperationError('failed to import snapshot', { cause: error }); }
+  }
+}
@@ -1,13 +1,23 @@
 import {
-  BTreeSet, MapTripleStore, MaybeAsyncAppendOnlySetBatch, MaybeAsyncReadonlySetBatch, ReadonlyTripleStore, TripleStore,
-  compareMultiKeys
+  BTreeSet, MapTripleStore, MaybeAsyncAppendOnlySetBatch, MaybeAsyncMapBatch, MaybeAsyncReadonlyMapBatch,
+  MaybeAsyncReadonlySetBatch, MaybeAsyncSetDeleteBatch, ReadonlyTripleStore, TripleStore, compareMultiKeys
 } from '@mithic/collections';
 
+/** Reserved attribute of entity tombstones, which mark entities as deleted. */
+export const ENTITY_TOMBSTONE_ATTR = '$deleted';
+
+/** Reserved attribute of the Id of the key that encrypts the values of an entity. */
+export const ENTITY_KEY_ATTR = '$key';
+
 /** Store of tagged entity triples and processed transaction Ids. */
 export interface EntityStore<Id, V> extends ReadonlyEntityStore<Id, V> {
   store(type?: string): TripleStore<Id, V>;
 
-  readonly tx: MaybeAsyncAppendOnlySetBatch<Id>;
+  history?(type?: string): TripleStore<Id, V> | undefined;
+
+  readonly tx: EntityTxSet<Id>;
+
+  readonly authors?: MaybeAsyncMapBatch<Id, string>;
 }
 
 /** Readonly {@link EntityStore}. */
@@ -15,18 +25,33 @@ export interface ReadonlyEntityStore<Id, V> {
   /** Provides {@link TripleStore} of given entity type. */
   store(type?: string): ReadonlyTripleStore<Id, V>;
 
+  /** Provides {@link TripleStore} of deleted triples of given entity type, if history is kept. */
+  history?(type?: string): ReadonlyTripleStore<Id, V> | undefined;
+
   /** Set of transaction (event) Ids processed by this store. */
-  readonly tx: MaybeAsyncReadonlySetBatch<Id>;
+  readonly tx: MaybeAsyncReadonlySetBatch<Id> & Partial<Iterable<Id> & AsyncIterable<Id>>;
+
+  /** Authors of signed transactions by transaction Id, if tracked. */
+  readonly authors?: MaybeAsyncReadonlyMapBatch<Id, string>;
 }
 
+/** Set of processed transaction Ids of an {@link EntityStore}, which may support deletion and iteration. */
+export type EntityTxSet<Id> = MaybeAsyncAppendOnlySetBatch<Id>
+  & Partial<MaybeAsyncSetDeleteBatch<Id> & Iterable<Id> & AsyncIterable<Id>>;
+
 /** Default implementation of {@link EntityStore}. */
 export class DefaultEntityStore<Id, V> implements EntityStore<Id, V> {
   protected readonly stores: Map<string, TripleStore<Id, V>> = new Map();
+  protected readonly historyStores: Map<string, TripleStore<Id, V>> = new Map();
 
   public constructor(
     /** Provider of {@link TripleStore}. */
     protected readonly provider: (type: string) => TripleStore<Id, V> = () => new MapTripleStore(),
-    public readonly tx: MaybeAsyncAppendOnlySetBatch<Id> = new BTreeSet(5, compareMultiKeys),
+    public readonly tx: EntityTxSet<Id> = new BTreeSet(5, compareMultiKeys),
+    /** Provider of {@link TripleStore} for deleted triples. History is not kept if not specified. */
+    protected readonly historyProvider?: (type: string) => TripleStore<Id, V>,
+    /** Map of authors of signed transactions. Authors are not tracked if not specified. */
+    public readonly authors?: MaybeAsyncMapBatch<Id, string>,
   ) {
   }
 
@@ -38,4 +63,14 @@ export class DefaultEntityStore<Id, V> implements EntityStore<Id, V> {
     }
     return store;
   }
+
+  public history(type = ''): TripleStore<Id, V> | undefined {
+    if (!this.historyProvider) { return; }
+    let store = this.historyStores.get(type);
+    if (!store) {
+      store = this.historyProvider(type);
+      this.historyStores.set(type, store);
+    }
+    return store;
+  }
 }
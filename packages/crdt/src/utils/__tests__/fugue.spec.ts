@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { FugueIndexGenerator } from '../fugue.ts';
+
+describe(FugueIndexGenerator.name, () => {
+  let generator: FugueIndexGenerator;
+
+  beforeEach(() => {
+    generator = new FugueIndexGenerator('a');
+  });
+
+  it('should throw for invalid replica ID', () => {
+    expect(() => new FugueIndexGenerator('a,b')).toThrow(TypeError);
+  });
+
+  describe('create', () => {
+    it.each([
+      [void 0, void 0, 2, ['Ra+10M', 'Ra+11M']],
+      ['Ra+11M', void 0, 2, ['Ra+12M', 'Ra+13M']],
+      ['Ra+10M', 'Ra+11M', 1, ['Ra+10Ra+10M']],
+      ['Rb+10M', 'Rc+10M', 1, ['Rb+10Ra+10M']],
+      [void 0, 'Rb+10M', 1, ['Rb+10La+10M']],
+      ['Rb+10M', 'Rb+10Rc+10M', 1, ['Rb+10Rc+10La+10M']],
+    ])('should return the correct indices between %s and %s', (start, end, count, expected) => {
+      const indices = [...generator.create(start, end, count)];
+      expect(indices).toEqual(expected);
+      for (const index of indices) {
+        expect(generator.validate(index)).toBe(true);
+        if (start) { expect(index > start).toBe(true); }
+        if (end) { expect(index < end).toBe(true); }
+      }
+    });
+
+    it('should keep concurrent insertions at the same position contiguous', () => {
+      const [start, end] = [...new FugueIndexGenerator('c').create(void 0, void 0, 2)];
+      const runs = ['b', 'a'].map((replica) => {
+        const generator = new FugueIndexGenerator(replica);
+        const indices: string[] = [];
+        for (let i = 0, prev = start; i < 3; ++i) { // insert one at a time after the previous index
+          const [index] = generator.create(prev, end);
+          indices.push(prev = index);
+        }
+        return indices;
+      });
+
+      expect([start, ...runs[0], ...runs[1], end].sort()).toEqual([start, ...runs[1], ...runs[0], end]);
+    });
+  });
+
+  describe('validate', () => {
+    it.each(['Ra+10M', 'Rab+1zLb_-c+2a0M'])('should return true for valid index %s', (index) => {
+      expect(generator.validate(index)).toBe(true);
+    });
+
+    it.each(['', 'M', 'Ra+10', 'Xa+10M', 'Ra,10M', 'R+10M', 'Ra+20M', 'Ra+1AM', 'Ra+10Ma'])(
+      'should return false for invalid index %s', (index) => {
+        expect(generator.validate(index)).toBe(false);
+      }
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntityAttrKey } from '@mithic/collections';
+import { createLSeqMoveTag, lseqKey, lseqMoveWinners, parseLSeqTag } from '../lseq.ts';
+import { resolveEventTimeTag } from '../tag.ts';
+
+const ID = 'id';
+const ATTR = 'attr';
+
+describe(parseLSeqTag.name, () => {
+  it('should parse moved list element tag', () => {
+    expect(parseLSeqTag(resolveEventTimeTag(createLSeqMoveTag('b', 'a'), 123))).toEqual(['b', 'a', 123]);
+  });
+
+  it('should return tag as index and identity for list element never moved', () => {
+    expect(parseLSeqTag('a')).toEqual(['a', 'a']);
+  });
+});
+
+describe(lseqMoveWinners.name, () => {
+  it('should return latest moved copy of each element', async () => {
+    const tag1 = resolveEventTimeTag(createLSeqMoveTag('b', 'a'), 1);
+    const tag2 = resolveEventTimeTag(createLSeqMoveTag('c', 'a'), 2);
+    const tag3 = resolveEventTimeTag(createLSeqMoveTag('d', 'x'), 1);
+    const entries = [
+      [[ID, ATTR, 'a', 'tx0'], 1],
+      [[ID, ATTR, tag1, 'tx1'], 1],
+      [[ID, ATTR, tag2, 'tx2'], 1],
+      [[ID, ATTR, tag3, 'tx4'], 2],
+      [[ID, ATTR, tag3, 'tx3'], 2],
+    ] satisfies [EntityAttrKey<string>, unknown][];
+
+    expect(await lseqMoveWinners(entries.values())).toEqual(new Set([lseqKey(tag2, 'tx2'), lseqKey(tag3, 'tx3')]));
+  });
+
+  it('should return latest moved copy of elements of given identities only', async () => {
+    const tag1 = resolveEventTimeTag(createLSeqMoveTag('b', 'a'), 1);
+    const tag2 = resolveEventTimeTag(createLSeqMoveTag('d', 'x'), 1);
+    const entries = [
+      [[ID, ATTR, tag1, 'tx1'], 1],
+      [[ID, ATTR, tag2, 'tx2'], 2],
+    ] satisfies [EntityAttrKey<string>, unknown][];
+
+    expect(await lseqMoveWinners(entries.values(), new Set(['x']))).toEqual(new Set([lseqKey(tag2, 'tx2')]));
+  });
+});
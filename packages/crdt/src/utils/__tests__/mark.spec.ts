@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntityAttrKey } from '@mithic/collections';
+import { FugueIndexGenerator } from '../fugue.ts';
+import { createMarkTag, markAttr, markSpans, parseMarkTag } from '../mark.ts';
+import { resolveEventTimeTag } from '../tag.ts';
+import { collect } from '../../__tests__/utils.ts';
+
+const ID = 'id';
+const ATTR = markAttr('attr');
+
+describe(markAttr.name, () => {
+  it('should return companion mark attribute name', () => {
+    expect(markAttr('attr')).toBe('attr$mark');
+  });
+});
+
+describe(parseMarkTag.name, () => {
+  it('should parse resolved mark tag', () => {
+    expect(parseMarkTag(resolveEventTimeTag(createMarkTag('a', 'b', 'link,url'), 123)))
+      .toEqual(['a', 'b', 'link,url', 123]);
+  });
+
+  it('should parse mark tag anchored to Fugue indices', () => {
+    const generator = new FugueIndexGenerator('a');
+    const [start] = generator.create();
+    const [end] = generator.create(start, void 0);
+    const [nested] = new FugueIndexGenerator('b').create(start, end);
+    expect(parseMarkTag(resolveEventTimeTag(createMarkTag(nested, end, 'bold'), 1))).toEqual([nested, end, 'bold', 1]);
+  });
+});
+
+describe(markSpans.name, () => {
+  const ELEMENTS = [['a', 1], ['b', 2], ['c', 3], ['d', 4]] satisfies [string, number][];
+
+  it('should group elements into spans of the same marks', async () => {
+    const marks = [
+      [[ID, ATTR, resolveEventTimeTag(createMarkTag('a', 'c', 'bold'), 1), 'tx1'], true],
+      [[ID, ATTR, resolveEventTimeTag(createMarkTag('b', 'b', 'bold'), 2), 'tx2'], false],
+      [[ID, ATTR, resolveEventTimeTag(createMarkTag('b', 'd', 'link'), 1), 'tx1'], 'url1'],
+      [[ID, ATTR, resolveEventTimeTag(createMarkTag('c', 'd', 'link'), 1), 'tx0'], 'url2'],
+    ] satisfies [EntityAttrKey<string>, unknown][];
+
+    expect(await collect(markSpans(ELEMENTS.values(), marks.sort(([a], [b]) => a[2] < b[2] ? -1 : 1).values())))
+      .toEqual([
+        [[1], { bold: true }],
+        [[2], { link: 'url1' }],
+        [[3], { bold: true, link: 'url2' }],
+        [[4], { link: 'url2' }],
+      ]);
+  });
+
+  it('should return single span for unmarked elements', async () => {
+    expect(await collect(markSpans(ELEMENTS.values(), [].values()))).toEqual([[[1, 2, 3, 4], {}]]);
+  });
+});
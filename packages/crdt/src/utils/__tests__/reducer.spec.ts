@@ -1,6 +1,6 @@
 import { describe, expect, it } from '@jest/globals';
 import { EntityAttrReducer } from '../../view/index.ts';
-import { asArray, asEntries, first, last } from '../reducer.ts';
+import { asArray, asEntries, first, last, sum } from '../reducer.ts';
 
 const ATTR = 'attr';
 const KEY1 = 'k1';
@@ -44,4 +44,13 @@ describe('EntityAttrReducers', () => {
         .toEqual([VALUE1, VALUE2]);
     });
   });
+
+  describe('sum', () => {
+    it('should return sum of values', () => {
+      expect((sum satisfies EntityAttrReducer<number>)(undefined, VALUE1, ATTR, KEY1))
+        .toEqual(VALUE1);
+      expect((sum satisfies EntityAttrReducer<number>)(VALUE1, -VALUE2, ATTR, KEY2))
+        .toEqual(VALUE1 - VALUE2);
+    });
+  });
 });
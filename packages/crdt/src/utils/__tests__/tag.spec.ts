@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@jest/globals';
+import { EVENT_TIME_TAG, decodeEventTime, encodeEventTime, resolveEventTimeTag, splitEventTimeTag } from '../tag.ts';
+
+describe('encodeEventTime', () => {
+  it('should encode time into fixed-length strings in descending order', () => {
+    const encoded = [0, 1, 123, 1700000000000, Number.MAX_SAFE_INTEGER].map((time) => encodeEventTime(time));
+    for (const value of encoded) {
+      expect(value.length).toBe(encoded[0].length);
+    }
+    expect([...encoded].sort()).toEqual([...encoded].reverse());
+  });
+
+  it('should be decodable by decodeEventTime', () => {
+    for (const time of [0, 1, 123, 1700000000000]) {
+      expect(decodeEventTime(encodeEventTime(time))).toBe(time);
+    }
+  });
+});
+
+describe('resolveEventTimeTag', () => {
+  it('should substitute time tag suffix with encoded time', () => {
+    expect(resolveEventTimeTag(EVENT_TIME_TAG, 123)).toBe(encodeEventTime(123));
+    expect(resolveEventTimeTag(`abc${EVENT_TIME_TAG}`, 123)).toBe(`abc${encodeEventTime(123)}`);
+    expect(resolveEventTimeTag(EVENT_TIME_TAG)).toBe(encodeEventTime(0));
+  });
+
+  it('should return other tags as is', () => {
+    expect(resolveEventTimeTag('abc', 123)).toBe('abc');
+  });
+});
+
+describe('splitEventTimeTag', () => {
+  it('should split resolved tag into prefix and time', () => {
+    expect(splitEventTimeTag(resolveEventTimeTag(`abc${EVENT_TIME_TAG}`, 123))).toEqual(['abc', 123]);
+    expect(splitEventTimeTag(resolveEventTimeTag(EVENT_TIME_TAG, 123))).toEqual(['', 123]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntityAttrKey } from '@mithic/collections';
+import { FractionalIndexGenerator } from '../fractional.ts';
+import { createTextRunTag, parseTextCharId, textCharId, textChars } from '../text.ts';
+import { collect } from '../../__tests__/utils.ts';
+
+const GENERATOR = new FractionalIndexGenerator(() => 0.5);
+
+describe(textCharId.name, () => {
+  it('should return character Ids in offset order', () => {
+    const ids = [0, 1, 9, 35, 36, 1000].map((offset) => textCharId('run', offset));
+    expect([...ids].sort()).toEqual(ids);
+    expect(ids[0]).toBe('run!10');
+  });
+});
+
+describe(parseTextCharId.name, () => {
+  it('should parse character Ids', () => {
+    expect(parseTextCharId(textCharId('run', 1000))).toEqual(['run', 1000]);
+    expect(parseTextCharId(textCharId(`${textCharId('run', 3)}abc`, 12))).toEqual([`${textCharId('run', 3)}abc`, 12]);
+  });
+
+  it('should return undefined for run tags', () => {
+    expect(parseTextCharId('run')).toBeUndefined();
+    expect(parseTextCharId(`${textCharId('run', 3)}abc`)).toBeUndefined();
+  });
+});
+
+describe(createTextRunTag.name, () => {
+  const RUN = 'U';
+
+  it.each([
+    [undefined, undefined],
+    [undefined, textCharId(RUN, 0)],
+    [textCharId(RUN, 0), textCharId(RUN, 1)],
+    [textCharId(RUN, 1), undefined],
+    [textCharId(RUN, 1), textCharId(`${textCharId(RUN, 1)}U`, 0)],
+    [textCharId(RUN, 1), textCharId('V', 0)],
+    [textCharId(RUN, 1), textCharId(`${RUN}V`, 0)],
+  ])('should return tag of run that sorts between given characters %#', (prev, next) => {
+    const tag = createTextRunTag(GENERATOR, prev, next);
+    expect(parseTextCharId(tag)).toBeUndefined();
+    for (const offset of [0, 1, 100]) {
+      const id = textCharId(tag, offset);
+      if (prev !== void 0) { expect(id > prev).toBe(true); }
+      if (next !== void 0) { expect(id < next).toBe(true); }
+    }
+  });
+
+  it('should return sibling run tag after the last character of a run', () => {
+    expect(createTextRunTag(GENERATOR, textCharId(RUN, 1))).not.toContain('!');
+  });
+});
+
+describe(textChars.name, () => {
+  const ID = 'id';
+  const ATTR = 'attr';
+  const CHILD = `${textCharId('U', 1)}U`;
+  const ENTRIES = [
+    [[ID, ATTR, 'U', 'tx1'], 'abc'],
+    [[ID, ATTR, textCharId('U', 1), 'tx3'], 2],
+    [[ID, ATTR, CHILD, 'tx2'], 'de'],
+    [[ID, ATTR, textCharId(CHILD, 0), 'tx3'], 1],
+    [[ID, ATTR, 'V', 'tx1'], 'f'],
+    [[ID, ATTR, 'V', 'tx2'], 'f'],
+  ] satisfies [EntityAttrKey<string>, string | number][];
+
+  it('should iterate characters in order', async () => {
+    expect(await collect(textChars(ENTRIES.values()))).toEqual([
+      [textCharId('U', 0), 'a', false],
+      [textCharId('U', 1), 'b', true],
+      [textCharId(CHILD, 0), 'd', true],
+      [textCharId(CHILD, 1), 'e', false],
+      [textCharId('U', 2), 'c', true],
+      [textCharId('V', 0), 'f', false],
+    ]);
+  });
+});
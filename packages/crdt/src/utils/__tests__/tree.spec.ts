@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntityAttrKey, MapTripleStore } from '@mithic/collections';
+import { isTreeAncestor, treeAncestorEntries, treeParents } from '../tree.ts';
+
+const ATTR = 'parent';
+
+describe(treeParents.name, () => {
+  it('should replay moves in order and skip moves that introduce cycles', async () => {
+    const entries = [
+      [['a', ATTR, 't1', 'tx1'], 'root'],
+      [['b', ATTR, 't2', 'tx2'], 'root'],
+      [['a', ATTR, 't3', 'tx3'], 'b'],
+      [['b', ATTR, 't4', 'tx4'], 'a'],
+      [['b', ATTR, 't5', 'tx5'], 'b'],
+    ] satisfies [EntityAttrKey<string>, unknown][];
+
+    expect(await treeParents(entries.values())).toEqual(new Map([['a', ['a', 'b']], ['b', ['b', 'root']]]));
+  });
+});
+
+describe(treeAncestorEntries.name, () => {
+  it('should return entries of given nodes and their candidate ancestors in ascending order of time', async () => {
+    const store = new MapTripleStore<string, string>();
+    for await (const _ of store.updateMany([
+      [['a', ATTR, 't5', 'tx1'], 'root'],
+      [['b', ATTR, 't4', 'tx2'], 'root'],
+      [['a', ATTR, 't3', 'tx3'], 'b'],
+      [['c', ATTR, 't2', 'tx4'], 'a'],
+      [['d', ATTR, 't1', 'tx5'], 'root'],
+    ])) { /* in-memory update does not fail */ }
+
+    expect(await treeAncestorEntries(store, ['c', 'a'], ATTR)).toEqual([
+      [['a', ATTR, 't5', 'tx1'], 'root'],
+      [['b', ATTR, 't4', 'tx2'], 'root'],
+      [['a', ATTR, 't3', 'tx3'], 'b'],
+      [['c', ATTR, 't2', 'tx4'], 'a'],
+    ]);
+  });
+});
+
+describe(isTreeAncestor.name, () => {
+  const parents = new Map([['a', ['a', 'root']], ['b', ['b', 'a']]] satisfies [string, [string, string]][]);
+
+  it.each([
+    ['root', 'b', true],
+    ['a', 'b', true],
+    ['b', 'b', true],
+    ['b', 'a', false],
+    ['c', 'b', false],
+  ])('should return if %s is ancestor of %s', (node, child, expected) => {
+    expect(isTreeAncestor(parents, node, child)).toBe(expected);
+  });
+});
@@ -0,0 +1,89 @@
+import { IndexGenerator } from './generator.ts';
+
+/** Markers after a node in an index, for its left descendants, itself and its right descendants, in sort order. */
+const LEFT = 'L';
+const END = 'M';
+const RIGHT = 'R';
+
+/**
+ * Terminator of the replica Id of a node. It must sort before all replica Id characters,
+ * and must not be a separator of other tags that embed indices, such as `,` of formatting mark tags.
+ */
+const REPLICA_END = '+';
+
+const REPLICA_PATTERN = /^[\w-]+$/;
+const DIGITS_PATTERN = /^[0-9a-z]+$/;
+
+/**
+ * Generator of list indices that keep concurrent insertions at the same position contiguous, based on Fugue.
+ * An index encodes the path to its node in a tree, where each node is a run of indices inserted by a replica,
+ * as the left or right child of an existing index. Concurrent runs under the same parent are ordered by replica Id.
+ * Indices must not be mixed with those of other generators in the same list.
+ */
+export class FugueIndexGenerator implements IndexGenerator<string> {
+  public constructor(
+    /** Unique ID of this replica, consisting of alphanumeric, `_` or `-` characters. */
+    protected readonly replica: string = crypto.randomUUID(),
+  ) {
+    if (!REPLICA_PATTERN.test(replica)) {
+      throw new TypeError(`invalid replica ID: "${replica}"`);
+    }
+  }
+
+  public * create(start?: string, end?: string, count = 1): IterableIterator<string> {
+    let prefix = `${RIGHT}${this.replica}${REPLICA_END}`;
+    let offset = 0;
+
+    const startPath = start?.slice(0, -END.length);
+    if (start && !end?.startsWith(`${startPath}${RIGHT}`)) { // end is not a descendant of start
+      const [nodePrefix, replica, nodeOffset] = parseLastNode(startPath!);
+      if (
+        replica === this.replica &&
+        (!end || `${nodePrefix}${encodeOffset(nodeOffset + count)}${END}` < end)
+      ) { // extend the run of start
+        prefix = nodePrefix;
+        offset = nodeOffset + 1;
+      } else { // insert as right child of start
+        prefix = `${startPath}${prefix}`;
+      }
+    } else if (end) { // insert as left child of end
+      prefix = `${end.slice(0, -END.length)}${LEFT}${this.replica}${REPLICA_END}`;
+    }
+
+    for (let i = 0; i < count; ++i) {
+      yield `${prefix}${encodeOffset(offset + i)}${END}`;
+    }
+  }
+
+  public validate(index: string): boolean {
+    let i = 0;
+    while (i < index.length - END.length) {
+      if (index[i] !== LEFT && index[i] !== RIGHT) { return false; }
+      const replicaEnd = index.indexOf(REPLICA_END, i + 1);
+      if (replicaEnd < 0 || !REPLICA_PATTERN.test(index.slice(i + 1, replicaEnd))) { return false; }
+      const length = parseInt(index[replicaEnd + 1], 36);
+      const digits = index.slice(replicaEnd + 2, replicaEnd + 2 + length);
+      if (!(length > 0) || digits.length !== length || !DIGITS_PATTERN.test(digits)) { return false; }
+      i = replicaEnd + 2 + length;
+    }
+    return i > 0 && index.slice(i) === END;
+  }
+}
+
+/** Encodes given offset within a node into a string that sorts in ascending order. */
+function encodeOffset(offset: number): string {
+  const digits = offset.toString(36);
+  return `${digits.length.toString(36)}${digits}`;
+}
+
+/** Parses the last node of given index path into its prefix up to the offset, its replica Id and the offset. */
+function parseLastNode(path: string): [prefix: string, replica: string, offset: number] {
+  const replicaEnd = path.lastIndexOf(REPLICA_END);
+  const prevReplicaEnd = path.lastIndexOf(REPLICA_END, replicaEnd - 1);
+  const sideIndex = prevReplicaEnd < 0 ? 0 : prevReplicaEnd + 2 + parseInt(path[prevReplicaEnd + 1], 36);
+  return [
+    path.slice(0, replicaEnd + 1),
+    path.slice(sideIndex + 1, replicaEnd),
+    parseInt(path.slice(replicaEnd + 2), 36),
+  ];
+}
@@ -1,4 +1,10 @@
 export * from './fractional.ts';
+export * from './fugue.ts';
 export * from './generator.ts';
+export * from './lseq.ts';
+export * from './mark.ts';
+export * from './tag.ts';
+export * from './text.ts';
+export * from './tree.ts';
 
 export * as EntityAttrReducers from './reducer.ts';
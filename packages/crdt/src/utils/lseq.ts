@@ -0,0 +1,53 @@
+import { EntityAttrKey } from '@mithic/collections';
+import { MaybeAsyncIterableIterator } from '@mithic/commons';
+import { EVENT_TIME_TAG, decodeEventTime } from './tag.ts';
+
+/**
+ * Separator between the list index, original identity and event time of a moved list element tag.
+ * It must sort before all index characters, such that a moved element sorts right after its index.
+ */
+const SEP = '!';
+
+/** Returns the tag of a list element with given identity moved to given index, to be resolved with event time. */
+export function createLSeqMoveTag(index: string, identity: string): string {
+  return `${index}${SEP}${identity}${SEP}${EVENT_TIME_TAG}`;
+}
+
+/**
+ * Parses given list element tag into its index, identity and event time of move.
+ * An element that has never been moved has its tag as both index and identity.
+ */
+export function parseLSeqTag(tag: string): [index: string, identity: string, time?: number] {
+  const [index, identity, time] = tag.split(SEP);
+  if (identity === void 0 || time === void 0) {
+    return [tag, tag];
+  }
+  return [index, identity, decodeEventTime(time)];
+}
+
+/**
+ * Returns the winning copies of moved list elements as a set of `tag#txId` keys, given triple store entries,
+ * optionally only for elements of given identities.
+ * Of concurrent moves of the same element, the latest move wins, with ties broken by tag and event key.
+ */
+export async function lseqMoveWinners<Id>(
+  entries: MaybeAsyncIterableIterator<readonly [key: EntityAttrKey<Id>, value: unknown]>,
+  identities?: ReadonlySet<string>,
+): Promise<Set<string>> {
+  const winners = new Map<string, [time: number, key: string]>();
+  for await (const [[, , tag, txId]] of entries) {
+    const [, identity, time] = parseLSeqTag(tag);
+    if (time === void 0 || (identities && !identities.has(identity))) { continue; }
+    const key = lseqKey(tag, txId);
+    const winner = winners.get(identity);
+    if (!winner || time > winner[0] || (time === winner[0] && key < winner[1])) {
+      winners.set(identity, [time, key]);
+    }
+  }
+  return new Set([...winners.values()].map(([, key]) => key));
+}
+
+/** Returns the key of given list element copy for lookup in the result of {@link lseqMoveWinners}. */
+export function lseqKey<Id>(tag: string, txId?: Id): string {
+  return `${tag}#${txId}`;
+}
@@ -0,0 +1,72 @@
+import { EntityAttrKey } from '@mithic/collections';
+import { MaybeAsyncIterableIterator } from '@mithic/commons';
+import { EVENT_TIME_TAG, splitEventTimeTag } from './tag.ts';
+
+const SEP = ',';
+
+/** Formatting marks of a span of list elements or text characters. */
+export type Marks = Record<string, unknown>;
+
+/** Returns the name of the attribute that holds formatting marks of given list or text attribute. */
+export function markAttr(attr: string): string {
+  return `${attr}$mark`;
+}
+
+/**
+ * Returns the tag of a formatting mark anchored to given inclusive range of positions.
+ * The tag is to be resolved with event time, such that concurrent marks are ordered by time.
+ */
+export function createMarkTag(start: string, end: string, name: string): string {
+  return `${start}${SEP}${end}${SEP}${name}${EVENT_TIME_TAG}`;
+}
+
+/** Parses given resolved formatting mark tag. */
+export function parseMarkTag(tag: string): [start: string, end: string, name: string, time: number] {
+  const [prefix, time] = splitEventTimeTag(tag);
+  const startEnd = prefix.indexOf(SEP);
+  const endEnd = prefix.indexOf(SEP, startEnd + 1);
+  return [prefix.slice(0, startEnd), prefix.slice(startEnd + 1, endEnd), prefix.slice(endEnd + 1), time];
+}
+
+/**
+ * Groups given positioned elements into spans of the same formatting marks, given the triple store entries of marks.
+ * Marks are applied in order of event time then reverse transaction Id, where a `false` value removes a mark.
+ */
+export async function* markSpans<T, Id>(
+  elements: MaybeAsyncIterableIterator<readonly [pos: string, value: T]>,
+  markEntries: MaybeAsyncIterableIterator<readonly [key: EntityAttrKey<Id>, value: unknown]>,
+): AsyncIterableIterator<[values: T[], marks: Marks]> {
+  const marks: [start: string, end: string, name: string, value: unknown, time: number, txId: string][] = [];
+  for await (const [[, , tag, txId], value] of markEntries) {
+    const [start, end, name, time] = parseMarkTag(tag);
+    marks.push([start, end, name, value, time, `${txId}`]);
+  }
+  marks.sort((a, b) => (a[4] - b[4]) || (a[5] < b[5] ? 1 : a[5] > b[5] ? -1 : 0));
+
+  let span: [values: T[], marks: Marks] | undefined;
+  for await (const [pos, value] of elements) {
+    const elementMarks: Marks = {};
+    for (const [start, end, name, value] of marks) {
+      if (start <= pos && pos <= end) {
+        if (value === false) {
+          delete elementMarks[name];
+        } else {
+          elementMarks[name] = value;
+        }
+      }
+    }
+
+    if (span && equalMarks(span[1], elementMarks)) {
+      span[0].push(value);
+    } else {
+      if (span) { yield span; }
+      span = [[value], elementMarks];
+    }
+  }
+  if (span) { yield span; }
+}
+
+function equalMarks(marks1: Marks, marks2: Marks): boolean {
+  const keys = Object.keys(marks1);
+  return keys.length === Object.keys(marks2).length && keys.every((key) => marks1[key] === marks2[key]);
+}
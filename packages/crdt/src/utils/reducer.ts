@@ -29,3 +29,10 @@ export function asArray<V>(
   result.push(value);
   return result;
 }
+
+/** EntityAttrReducer that returns the sum of values, e.g. of a counter. */
+export function sum<V>(
+  result: number | undefined, value: V, _attr: string, _tag: string
+): number {
+  return (result || 0) + Number(value);
+}
@@ -0,0 +1,28 @@
+/**
+ * Suffix of an operation tag to be substituted with the encoded event time on projection.
+ * It is reserved, such that tags of values and counter replicas must not end with it.
+ */
+export const EVENT_TIME_TAG = '@';
+
+const MAX_TIME = Number.MAX_SAFE_INTEGER;
+const TIME_LENGTH = MAX_TIME.toString(36).length;
+
+/** Encodes given event time into a fixed-length string that sorts in descending order of time. */
+export function encodeEventTime(time = 0): string {
+  return (MAX_TIME - time).toString(36).padStart(TIME_LENGTH, '0');
+}
+
+/** Decodes event time from a string encoded by {@link encodeEventTime}. */
+export function decodeEventTime(encoded: string): number {
+  return MAX_TIME - parseInt(encoded, 36);
+}
+
+/** Splits given tag resolved by {@link resolveEventTimeTag} into its prefix and event time. */
+export function splitEventTimeTag(tag: string): [prefix: string, time: number] {
+  return [tag.slice(0, -TIME_LENGTH), decodeEventTime(tag.slice(-TIME_LENGTH))];
+}
+
+/** Substitutes the {@link EVENT_TIME_TAG} suffix of given tag with encoded event time, if present. */
+export function resolveEventTimeTag(tag: string, time?: number): string {
+  return tag.endsWith(EVENT_TIME_TAG) ? `${tag.slice(0, -EVENT_TIME_TAG.length)}${encodeEventTime(time)}` : tag;
+}
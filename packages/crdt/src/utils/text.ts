@@ -0,0 +1,143 @@
+import { EntityAttrKey } from '@mithic/collections';
+import { MaybeAsyncIterableIterator } from '@mithic/commons';
+import { IndexGenerator } from './generator.ts';
+
+/**
+ * Separator between a text run tag and character offset.
+ * It must sort before all index characters, such that characters of a run sort before its extensions.
+ */
+const SEP = '!';
+
+/**
+ * Returns the position Id of the character at given offset of a text run.
+ * Characters inserted after this character use this Id as prefix of their run tag.
+ */
+export function textCharId(run: string, offset: number): string {
+  const digits = offset.toString(36);
+  return `${run}${SEP}${digits.length.toString(36)}${digits}`;
+}
+
+/** Parses given text character position Id into its run tag and offset. Returns undefined if it is not a valid Id. */
+export function parseTextCharId(id: string): [run: string, offset: number] | undefined {
+  const sepIndex = id.lastIndexOf(SEP);
+  const length = parseInt(id[sepIndex + 1], 36);
+  if (sepIndex < 0 || !(length > 0) || sepIndex + 2 + length !== id.length) {
+    return;
+  }
+  return [id.slice(0, sepIndex), parseInt(id.slice(sepIndex + 2), 36)];
+}
+
+/**
+ * Generates the tag of a new text run to be inserted between given characters.
+ * All characters of the new run sort strictly between `prev` and `next`.
+ */
+export function createTextRunTag(generator: IndexGenerator<string>, prev?: string, next?: string): string {
+  if (prev === void 0) { // insert at start
+    return first(generator.create(void 0, next !== void 0 ? leadingIndex(next) : void 0));
+  }
+  if (next?.startsWith(prev)) { // insert before the first child run of prev
+    return `${prev}${first(generator.create(void 0, leadingIndex(next.slice(prev.length))))}`;
+  }
+
+  const [run, offset] = parseTextCharId(prev) ?? [prev, 0];
+  if (next === textCharId(run, offset + 1)) { // insert in the middle of a run
+    return `${prev}${first(generator.create())}`;
+  }
+
+  // prev is the last character of its run; insert a sibling run after it
+  const [parent, suffix] = parseTextRunTag(run);
+  const end = next?.startsWith(parent) ? leadingIndex(next.slice(parent.length)) : void 0;
+  return `${parent}${first(generator.create(suffix, end))}`;
+}
+
+/**
+ * Iterates characters of a text attribute, given its triple store entries in ascending order.
+ * Text runs are string values tagged by run tags. Deletion marks are character counts tagged by the Id of the first
+ * deleted character.
+ */
+export async function* textChars<Id>(
+  entries: MaybeAsyncIterableIterator<readonly [key: EntityAttrKey<Id>, value: unknown]>
+): AsyncIterableIterator<[id: string, char: string, deleted: boolean]> {
+  const stack: TextRun[] = [];
+  const deletions = new Map<string, [start: number, end: number][]>();
+  let lastRunTag: string | undefined;
+
+  for await (const [[, , tag], value] of entries) {
+    if (tag === lastRunTag) { continue; } // skip duplicated runs
+
+    yield* flushTextRuns(stack, deletions, tag);
+
+    const charId = parseTextCharId(tag);
+    if (charId) {
+      const [run, offset] = charId;
+      let ranges = deletions.get(run);
+      if (!ranges) {
+        deletions.set(run, ranges = []);
+      }
+      ranges.push([offset, offset + Number(value)]);
+    } else {
+      stack.push({ tag, text: `${value}`, next: 0 });
+      lastRunTag = tag;
+    }
+  }
+
+  yield* flushTextRuns(stack, deletions);
+}
+
+/** Partially read text run. */
+interface TextRun {
+  readonly tag: string;
+  readonly text: string;
+  next: number;
+}
+
+/** Yields characters of the nested runs on stack which sort before given tag, or all characters if undefined. */
+function* flushTextRuns(
+  stack: TextRun[], deletions: Map<string, [start: number, end: number][]>, tag?: string,
+): IterableIterator<[id: string, char: string, deleted: boolean]> {
+  while (stack.length) {
+    const run = stack[stack.length - 1];
+    let end = run.text.length;
+    if (tag?.startsWith(`${run.tag}${SEP}`)) { // tag is a deletion mark or a child run of a character of this run
+      const charId = charIdPrefix(tag, run.tag);
+      const offset = parseTextCharId(charId)?.[1] ?? end;
+      end = Math.min(end, tag === charId ? offset : offset + 1);
+    }
+
+    const ranges = deletions.get(run.tag);
+    for (; run.next < end; ++run.next) {
+      const deleted = !!ranges?.some(([start, end]) => start <= run.next && run.next < end);
+      yield [textCharId(run.tag, run.next), run.text[run.next], deleted];
+    }
+
+    if (end < run.text.length) { break; }
+    stack.pop();
+  }
+}
+
+/** Returns the Id of the character of given run that given tag starts with. */
+function charIdPrefix(tag: string, run: string): string {
+  const length = parseInt(tag[run.length + 1], 36) || 0;
+  return tag.slice(0, run.length + 2 + length);
+}
+
+/** Splits given text run tag into its parent character Id (or empty for top-level runs) and suffix index. */
+function parseTextRunTag(run: string): [parent: string, suffix: string] {
+  const sepIndex = run.lastIndexOf(SEP);
+  if (sepIndex < 0) {
+    return ['', run];
+  }
+  const end = sepIndex + 2 + (parseInt(run[sepIndex + 1], 36) || 0);
+  return [run.slice(0, end), run.slice(end)];
+}
+
+/** Returns the leading index of given tag before any character offset. */
+function leadingIndex(tag: string): string {
+  const sepIndex = tag.indexOf(SEP);
+  return sepIndex < 0 ? tag : tag.slice(0, sepIndex);
+}
+
+function first(iter: Iterable<string>): string {
+  for (const value of iter) { return value; }
+  throw new TypeError('failed to generate index');
+}
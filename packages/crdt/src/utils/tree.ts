@@ -0,0 +1,69 @@
+import { EntityAttrKey, ReadonlyTripleStore, compareMultiKeys } from '@mithic/collections';
+import { AbortOptions, MaybeAsyncIterableIterator, MaybePromise } from '@mithic/commons';
+
+/**
+ * Resolves the parent of each tree node, given its parent pointer triple store entries in ascending order of time.
+ * Parent pointer moves are replayed in order, skipping moves that would make a node its own ancestor.
+ * Returns a map of node key to `[node, parent]`.
+ */
+export async function treeParents<Id>(
+  entries: MaybeAsyncIterableIterator<readonly [key: EntityAttrKey<Id>, value: unknown]>,
+): Promise<Map<string, [node: Id, parent: Id]>> {
+  const parents = new Map<string, [node: Id, parent: Id]>();
+  for await (const [[node], value] of entries) {
+    const parent = value as Id;
+    const nodeKey = `${node}`;
+    if (!isTreeAncestor(parents, nodeKey, `${parent}`)) {
+      parents.set(nodeKey, [node, parent]);
+    }
+  }
+  return parents;
+}
+
+/**
+ * Reads the parent pointer entries of given nodes and of all their candidate ancestors in the tree of given attribute,
+ * with one batched query per level, and returns them in ascending order of time with their values decoded.
+ * Replaying them with {@link treeParents} resolves the parents of these nodes and their ancestors
+ * the same as replaying the whole tree, as skipping a move only depends on the ancestors of its new parent.
+ */
+export async function treeAncestorEntries<Id, V>(
+  store: ReadonlyTripleStore<Id, V>, nodes: Iterable<Id>, attr: string,
+  decode: (value: V, key: EntityAttrKey<Id>, options?: AbortOptions) => MaybePromise<V> = (value) => value,
+  parseId: (value: V) => Id | undefined = (value) => value as unknown as Id,
+  options?: AbortOptions,
+): Promise<[key: EntityAttrKey<Id>, value: V][]> {
+  const entries: [key: EntityAttrKey<Id>, value: V][] = [];
+  const visited = new Set<string>();
+  for (let ids = [...nodes]; ids.length;) {
+    const queries: [Id, string][] = [];
+    for (const id of ids) {
+      if (visited.has(`${id}`)) { continue; }
+      visited.add(`${id}`);
+      queries.push([id, attr]);
+    }
+    ids = [];
+    if (!queries.length) { break; }
+    for await (const iter of store.findMany(queries, options)) {
+      for await (const [key, value] of iter) {
+        const parent = await decode(value, key, options);
+        entries.push([key, parent]);
+        const id = parseId(parent);
+        if (id !== void 0) { ids.push(id); } // otherwise not an entity Id, so it has no ancestors
+      }
+    }
+  }
+  // same order as the attribute index in reverse, as tags are encoded event times in descending order
+  return entries.sort(([[id1, , tag1, txId1]], [[id2, , tag2, txId2]]) =>
+    compareMultiKeys([tag2, txId2, id2], [tag1, txId1, id1]));
+}
+
+/** Returns true if given node is the same as or an ancestor of another node in a resolved tree. */
+export function isTreeAncestor<Id>(parents: Map<string, [node: Id, parent: Id]>, node: string, child: string): boolean {
+  let key: string | undefined = child;
+  while (key !== void 0) {
+    if (key === node) { return true; }
+    const entry = parents.get(key);
+    key = entry && `${entry[1]}`;
+  }
+  return false;
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { SimpleMessageBus } from '@mithic/messaging';
+import {
+  EntityChangeSet, EntityCommand, EntityCommandType, OREntityCommandHandler, OREntityProjection
+} from '../../mutation/index.ts';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { updateCommand } from '../../__tests__/utils.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+import { EntityQueryDiff, LiveEntityQuery } from '../live.ts';
+import { ReadonlyOREntityCollection } from '../orentity.ts';
+
+type V = string | number | MockId;
+
+const TYPE = 'live';
+const ROOT1 = new MockId(new Uint8Array(1));
+const ROOT2 = new MockId(new Uint8Array(2));
+const ROOT3 = new MockId(new Uint8Array(3));
+const FIELD1 = 'field1';
+const FIELD2 = 'field2';
+
+describe(LiveEntityQuery.name, () => {
+  let state: EntityStore<MockId, V>;
+  let changes: SimpleMessageBus<EntityChangeSet<MockId, V>>;
+  let query: LiveEntityQuery<MockId, V>;
+  let diffs: EntityQueryDiff<MockId, V>[];
+  const command = new OREntityCommandHandler<MockId, V>();
+  let projection: OREntityProjection<MockId, V>;
+
+  beforeEach(async () => {
+    state = new DefaultEntityStore<MockId, V>();
+    changes = new SimpleMessageBus();
+    projection = new OREntityProjection(getMockEventKey, void 0, void 0, changes);
+    diffs = [];
+
+    await applyCommands(
+      updateCommand<V>('1', ROOT1, TYPE, { [FIELD1]: { set: 2 }, [FIELD2]: { set: 'a' } }),
+      updateCommand<V>('2', ROOT2, TYPE, { [FIELD1]: { set: 5 } }),
+    );
+  });
+
+  afterEach(async () => {
+    await query?.close();
+  });
+
+  it('should emit initial results as added entities', async () => {
+    await startQuery({ type: TYPE, by: FIELD1 });
+    expect(diffs).toEqual([{
+      added: [[ROOT1, { [FIELD1]: 2, [FIELD2]: 'a' }], [ROOT2, { [FIELD1]: 5 }]], updated: [], removed: [],
+    }]);
+  });
+
+  it('should maintain results in query order from change sets', async () => {
+    await startQuery({ type: TYPE, by: FIELD1, lower: 1, upper: 5 });
+    await applyCommands(
+      updateCommand<V>('3', ROOT3, TYPE, { [FIELD1]: { set: 1 } }),
+      updateCommand<V>('4', ROOT1, TYPE, { [FIELD2]: { set: 'b' } }),
+      updateCommand<V>('5', ROOT1, TYPE, { [FIELD1]: { set: 9 } }),
+    );
+
+    expect(query.results).toEqual([[ROOT3, { [FIELD1]: 1 }]]);
+    expect(diffs.slice(1)).toEqual([
+      { added: [[ROOT3, { [FIELD1]: 1 }]], updated: [], removed: [] },
+      { added: [], updated: [[ROOT1, { [FIELD1]: 2, [FIELD2]: 'b' }]], removed: [] },
+      { added: [], updated: [], removed: [ROOT1] },
+    ]);
+  });
+
+  it('should emit entities moving into and out of limit', async () => {
+    await startQuery({ type: TYPE, by: FIELD1, limit: 1, reverse: true });
+    await applyCommands(updateCommand<V>('3', ROOT1, TYPE, { [FIELD1]: { set: 7 } }));
+    await applyCommands({ type: EntityCommandType.Delete, nonce: '4', root: ROOT1, payload: { cmd: {}, type: TYPE } });
+
+    expect(diffs).toEqual([
+      { added: [[ROOT2, { [FIELD1]: 5 }]], updated: [], removed: [] },
+      { added: [[ROOT1, { [FIELD1]: 7, [FIELD2]: 'a' }]], updated: [], removed: [ROOT2] },
+      { added: [[ROOT2, { [FIELD1]: 5 }]], updated: [], removed: [ROOT1] },
+    ]);
+  });
+
+  it('should reload a full window when an entity leaves it', async () => {
+    await startQuery({ type: TYPE, by: FIELD1, limit: 1 });
+    await applyCommands(updateCommand<V>('3', ROOT3, TYPE, { [FIELD1]: { set: 7 } }));
+    await applyCommands(updateCommand<V>('4', ROOT1, TYPE, { [FIELD1]: { set: 9 } }));
+
+    expect(query.results).toEqual([[ROOT2, { [FIELD1]: 5 }]]);
+    expect(diffs.slice(1)).toEqual([{ added: [[ROOT2, { [FIELD1]: 5 }]], updated: [], removed: [ROOT1] }]);
+  });
+
+  it('should close with the error of a failed change set without failing the projection', async () => {
+    const error = new Error('failed');
+    const collection = new class extends ReadonlyOREntityCollection<MockId, V> {
+      public override async get(): Promise<undefined> { throw error; }
+    }(state);
+    query = new LiveEntityQuery<MockId, V>(state, changes, { type: TYPE, by: FIELD1 }, void 0, void 0, collection);
+    await query.start();
+
+    await applyCommands(updateCommand<V>('3', ROOT3, TYPE, { [FIELD1]: { set: 1 } }));
+    expect(query.started).toBe(false);
+    expect(query.error).toBe(error);
+    const iterator = query[Symbol.asyncIterator]();
+    await iterator.next(); // current results
+    await expect(iterator.next()).rejects.toBe(error);
+  });
+
+  it('should process change sets received during initial load', async () => {
+    query = new LiveEntityQuery<MockId, V>(state, changes, { type: TYPE, by: FIELD1 });
+    const started = query.start();
+    await applyCommands(updateCommand<V>('3', ROOT3, TYPE, { [FIELD1]: { set: 1 } }));
+    await started;
+
+    expect(query.results).toEqual([[ROOT3, { [FIELD1]: 1 }], [ROOT1, { [FIELD1]: 2, [FIELD2]: 'a' }], [ROOT2, { [FIELD1]: 5 }]]);
+  });
+
+  it('should not emit updates for unchanged views', async () => {
+    await applyCommands(updateCommand<V>('3', ROOT1, TYPE, { [FIELD2]: { set: ROOT3 } }));
+    await startQuery({ type: TYPE, by: FIELD1 });
+    await applyCommands(
+      updateCommand<V>('4', ROOT1, TYPE, { [FIELD1]: { set: 2 } }),
+      updateCommand<V>('5', ROOT1, TYPE, { [FIELD2]: { set: new MockId(new Uint8Array(3)) } }),
+    );
+    expect(diffs).toHaveLength(1);
+  });
+
+  it('should ignore changes to unselected attributes', async () => {
+    await startQuery({ type: TYPE, by: FIELD1, attr: { [FIELD1]: true } });
+    await applyCommands(updateCommand<V>('3', ROOT1, TYPE, { [FIELD2]: { set: 'b' } }));
+    expect(diffs).toHaveLength(1);
+  });
+
+  it('should iterate current results and differences until closed', async () => {
+    await startQuery({ type: TYPE, lower: ROOT2 });
+    const iterator = query[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual({ added: [[ROOT2, { [FIELD1]: 5 }]], updated: [], removed: [] });
+
+    const next = iterator.next();
+    await applyCommands(updateCommand<V>('3', ROOT3, TYPE, { [FIELD1]: { set: 1 } }));
+    expect((await next).value).toEqual({ added: [[ROOT3, { [FIELD1]: 1 }]], updated: [], removed: [] });
+
+    const done = iterator.next();
+    await query.close();
+    expect((await done).done).toBe(true);
+  });
+
+  async function startQuery(options: ConstructorParameters<typeof LiveEntityQuery<MockId, V>>[2]) {
+    query = new LiveEntityQuery<MockId, V>(state, changes, options);
+    query.subscribe((diff) => { diffs.push(diff); });
+    await query.start();
+  }
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      await projection.reduce(state, (await command.handle(state, cmd))!);
+    }
+  }
+});
@@ -1,10 +1,13 @@
 import { beforeEach, describe, expect, it } from '@jest/globals';
 import { MapTripleStore, RangeQueryOptions, rangeQueryable } from '@mithic/collections';
-import { FractionalIndexGenerator } from '../../utils/index.ts';
+import { FractionalIndexGenerator, FugueIndexGenerator } from '../../utils/index.ts';
 import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
-import { collect } from '../../__tests__/utils.ts';
+import { collect, countStoreCalls } from '../../__tests__/utils.ts';
 import { ReadonlyLSeq } from '../lseq.ts';
-import { EntityCommand, EntityCommandHandler, EntityCommandType, EntityProjection, OREntityCommandHandler, OREntityProjection } from '../../mutation/index.ts';
+import {
+  EntityCommand, EntityCommandHandler, EntityCommandType, EntityEvent, EntityProjection, OREntityCommandHandler,
+  OREntityProjection
+} from '../../mutation/index.ts';
 import { DefaultEntityStore, EntityStore } from '../../store.ts';
 
 type V = string;
@@ -175,6 +178,92 @@ describe(ReadonlyLSeq.name, () => {
     });
   });
 
+  describe('with FugueIndexGenerator', () => {
+    it('should not interleave values inserted concurrently at the same index', async () => {
+      command = new OREntityCommandHandler<MockId, V>(undefined, new FugueIndexGenerator('c'));
+      const event = (await command.handle(state, CMD_SPLICE))!;
+      const index1 = event.payload.ops[1][1];
+
+      const events: EntityEvent<MockId, V>[] = [event];
+      for (const [replica, nonce] of [['b', 20], ['a', 30]] as const) {
+        const replicaStore = new MapTripleStore<MockId, V>();
+        const replicaState = new DefaultEntityStore<MockId, V>(() => replicaStore);
+        const replicaCommand = new OREntityCommandHandler<MockId, V>(undefined, new FugueIndexGenerator(replica));
+        await projection.reduce(replicaState, event);
+        for (let i = 0; i < 3; ++i) { // insert one at a time after the previous value
+          const replicaEvent = (await replicaCommand.handle(replicaState, {
+            type: EntityCommandType.Update, nonce: `${nonce + i}`, root: ROOT,
+            payload: { cmd: { [ATTR]: { splice: [index1, 0, `${replica}${i}`] } }, type: TYPE },
+          }))!;
+          await projection.reduce(replicaState, replicaEvent);
+          events.push(replicaEvent);
+        }
+      }
+      for (const event of events) {
+        await projection.reduce(state, event);
+      }
+
+      expect(await collect(lseq.values())).toEqual([VALUE0, 'a0', 'a1', 'a2', 'b0', 'b1', 'b2', VALUE1]);
+    });
+  });
+
+  describe('move', () => {
+    it('should list moved value once at its latest index', async () => {
+      await applyCommands(CMD_SPLICE, CMD_SPLICE_AT);
+      const cmdMove = {
+        type: EntityCommandType.Update, nonce: '17', root: ROOT,
+        payload: { cmd: { [ATTR]: { move: [INDEX0, ''] } }, type: TYPE },
+      } satisfies EntityCommand<MockId, V>;
+      const event1 = await command.handle(state, cmdMove);
+      const event2 = await command.handle(state, {
+        ...cmdMove, nonce: '19', payload: { ...cmdMove.payload, cmd: { [ATTR]: { move: [INDEX0, INDEXA1] } } },
+      });
+      await projection.reduce(state, { ...event2!, time: 2 });
+      await projection.reduce(state, { ...event1!, time: 1 });
+
+      expect(await collect(lseq.values())).toEqual([VALUE0, VALUE1, VALUE2, VALUE1]);
+      expect(await collect(lseq.values({ limit: 2, reverse: true }))).toEqual([VALUE1, VALUE2]);
+    });
+
+    it('should resolve concurrent moves only for moved elements within given range', async () => {
+      await applyCommands(CMD_SPLICE, CMD_SPLICE_AT);
+      const cmdMove = {
+        type: EntityCommandType.Update, nonce: '17', root: ROOT,
+        payload: { cmd: { [ATTR]: { move: [INDEX0, ''] } }, type: TYPE },
+      } satisfies EntityCommand<MockId, V>;
+      await applyCommands(cmdMove);
+
+      const [counted, stats] = countStoreCalls(store);
+      lseq = new ReadonlyLSeq(counted, ROOT, ATTR);
+      expect(await collect(lseq.values({ limit: 2 }))).toEqual([VALUE1, VALUE2]);
+      expect(stats).toEqual({ calls: ['entries'], reads: 2 });
+      expect(await collect(lseq.values({ limit: 1, reverse: true }))).toEqual([VALUE0]);
+      expect(stats.calls).toEqual(['entries', 'entries', 'entries']);
+    });
+  });
+
+  describe('spans', () => {
+    it('should return spans of values with formatting marks', async () => {
+      await applyCommands(CMD_SPLICE, CMD_SPLICE_AT);
+      const event1 = await command.handle(state, {
+        type: EntityCommandType.Update, nonce: '17', root: ROOT,
+        payload: { cmd: { [ATTR]: { mark: [INDEXA2, INDEX0, 'bold'] } }, type: TYPE },
+      });
+      const event2 = await command.handle(state, {
+        type: EntityCommandType.Update, nonce: '19', root: ROOT,
+        payload: { cmd: { [ATTR]: { mark: [INDEX0, INDEX1, 'bold', false as unknown as V] } }, type: TYPE },
+      });
+      await projection.reduce(state, { ...event2!, time: 2 });
+      await projection.reduce(state, { ...event1!, time: 1 });
+
+      expect(await collect(lseq.spans())).toEqual([
+        [[VALUE1], {}],
+        [[VALUE2], { bold: true }],
+        [[VALUE0, VALUE1], {}],
+      ]);
+    });
+  });
+
   async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
     for (const cmd of cmds) {
       await projection.reduce(state, (await command.handle(state, cmd))!);
@@ -1,10 +1,10 @@
-import { beforeEach, describe, expect, it } from '@jest/globals';
-import { MapTripleStore, rangeQueryable } from '@mithic/collections';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FullTextIndex, MapTripleStore, rangeQueryable } from '@mithic/collections';
 import { EntityCommand, EntityCommandHandler, EntityCommandType, EntityProjection, OREntityCommandHandler, OREntityProjection } from '../../mutation/index.ts';
 import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
 import { collect } from '../../__tests__/utils.ts';
 import { DefaultEntityStore, EntityStore } from '../../store.ts';
-import { EntityAttrRangeQueryOptions, EntityRangeQueryOptions } from '../entity.ts';
+import { EntityAttrRangeQueryOptions, EntityCursor, EntityQueryOptions, EntityRangeQueryOptions } from '../entity.ts';
 import { ReadonlyOREntityCollection } from '../orentity.ts';
 import { EntityAttrReducers } from '../../index.ts';
 
@@ -49,7 +49,7 @@ describe(ReadonlyOREntityCollection.name, () => {
     });
     command = new OREntityCommandHandler<MockId, V>();
     projection = new OREntityProjection(getMockEventKey);
-    view = new ReadonlyOREntityCollection(state);
+    view = new ReadonlyOREntityCollection(state, void 0, void 0, void 0, void 0, MockId.parse);
 
     await applyCommands(CMD_NEW, CMD_NEW2);
   });
@@ -108,6 +108,38 @@ describe(ReadonlyOREntityCollection.name, () => {
       })).toEqual({ [FIELD2]: [VALUE2, VALUE3] });
     });
 
+    it('should sum counter values with sum reducer', async () => {
+      const command2 = new OREntityCommandHandler<MockId, V>(void 0, void 0, 'replica2');
+      await applyCommands({
+        type: EntityCommandType.Update, nonce: '3', root: ROOT2, payload: { cmd: { [FIELD3]: { inc: 5 } }, type: TYPE }
+      });
+      await projection.reduce(state, (await command2.handle(state, {
+        type: EntityCommandType.Update, nonce: '4', root: ROOT2, payload: { cmd: { [FIELD3]: { inc: -2 } }, type: TYPE }
+      }))!);
+      await applyCommands({
+        type: EntityCommandType.Update, nonce: '5', root: ROOT2, payload: { cmd: { [FIELD3]: { inc: 4 } }, type: TYPE }
+      });
+
+      expect(await view.get(ROOT2, {
+        type: TYPE, attr: { [FIELD3]: EntityAttrReducers.sum }
+      })).toEqual({ [FIELD3]: 7 });
+    });
+
+    it('should resolve concurrent last-writer-wins values to the latest value', async () => {
+      const cmd1 = {
+        type: EntityCommandType.Update, nonce: '3', root: ROOT, payload: { cmd: { [FIELD3]: { set: VALUE0, lww: true } }, type: TYPE }
+      } satisfies EntityCommand<MockId, V>;
+      const cmd2 = {
+        type: EntityCommandType.Update, nonce: '4', root: ROOT, payload: { cmd: { [FIELD3]: { set: VALUE1, lww: true } }, type: TYPE }
+      } satisfies EntityCommand<MockId, V>;
+      const event1 = (await command.handle(state, cmd1))!;
+      const event2 = (await command.handle(state, cmd2))!;
+      await projection.reduce(state, { ...event2, time: 200 });
+      await projection.reduce(state, { ...event1, time: 100 });
+
+      expect(await view.get(ROOT, { type: TYPE, attr: { [FIELD3]: true } })).toEqual({ [FIELD3]: VALUE1 });
+    });
+
     it('should return undefined for non-existent entity', async () => {
       expect(await view.get(ROOT3, { type: TYPE })).toBeUndefined();
     });
@@ -117,6 +149,28 @@ describe(ReadonlyOREntityCollection.name, () => {
     });
   });
 
+  describe('getConflicts', () => {
+    it('should return all concurrent values with transaction Ids', async () => {
+      const cmd1 = {
+        type: EntityCommandType.Update, nonce: '3', root: ROOT, payload: { cmd: { [FIELD1]: { set: VALUE2 } }, type: TYPE }
+      } satisfies EntityCommand<MockId, V>;
+      const cmd2 = {
+        type: EntityCommandType.Update, nonce: '4', root: ROOT, payload: { cmd: { [FIELD1]: { set: VALUE3 } }, type: TYPE }
+      } satisfies EntityCommand<MockId, V>;
+      const event1 = (await command.handle(state, cmd1))!;
+      const event2 = (await command.handle(state, cmd2))!;
+      await projection.reduce(state, event1);
+      await projection.reduce(state, event2);
+
+      expect(await view.getConflicts(ROOT, FIELD1, { type: TYPE }))
+        .toEqual([[VALUE2, getMockEventKey(cmd1)], [VALUE3, getMockEventKey(cmd2)]]);
+    });
+
+    it('should return single value for non-conflicting attribute', async () => {
+      expect(await view.getConflicts(ROOT, FIELD0, { type: TYPE })).toEqual([[VALUE0, getMockEventKey(CMD_NEW)]]);
+    });
+  });
+
   describe('getMany', () => {
     it('should return matching entities', async () => {
       expect(await collect(view.getMany([ROOT, ROOT3], { type: TYPE })))
@@ -196,6 +250,111 @@ describe(ReadonlyOREntityCollection.name, () => {
     });
   });
 
+  describe('page', () => {
+    it('should page through entities by id with cursors', async () => {
+      const page1 = await view.page({ type: TYPE, limit: 1 });
+      expect(page1.entries).toEqual([[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]);
+      expect(page1.cursor).toEqual(expect.any(String));
+      const page2 = await view.page({ type: TYPE, limit: 1, after: page1.cursor });
+      expect(page2.entries).toEqual([[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]);
+      expect(await view.page({ type: TYPE, limit: 1, after: page2.cursor })).toEqual({ entries: [] });
+
+      const reversed = await view.page({ type: TYPE, limit: 1, reverse: true });
+      expect(reversed.entries).toEqual([[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE3 }]]);
+      expect((await view.page({ type: TYPE, reverse: true, after: reversed.cursor })))
+        .toEqual({ entries: [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]] });
+    });
+
+    it.each([false, true])('should not repeat entities with multiple attribute values across pages (reverse: %s)', async (reverse) => {
+      await applyCommands({
+        type: EntityCommandType.Update, nonce: '3', root: ROOT, payload: { cmd: { [FIELD2]: { add: [VALUE0] } }, type: TYPE }
+      });
+      const query = { type: TYPE, by: FIELD2, attr: { [FIELD2]: true as const }, limit: 1, reverse };
+      const ids = [];
+      let cursor: EntityCursor | undefined;
+      do {
+        const page = await view.page({ ...query, after: cursor });
+        ids.push(...page.entries.map(([id]) => id));
+        cursor = page.cursor;
+      } while (cursor);
+      expect(ids).toEqual(reverse ? [ROOT2, ROOT] : [ROOT, ROOT2]);
+    });
+
+    it('should resume attribute range query after cursor', async () => {
+      const { cursor } = await view.page({ type: TYPE, by: FIELD1, lower: VALUE1, upper: VALUE2, upperOpen: false, limit: 1 });
+      expect(await collect(view.keysByAttr({ type: TYPE, by: FIELD1, lower: VALUE1, upper: VALUE2, upperOpen: false, after: cursor })))
+        .toEqual([ROOT2]);
+    });
+
+    it.each([
+      ['malformed', 'not a cursor!'],
+      ['of unexpected shape', btoa(JSON.stringify([1, 2]))],
+      ['of a different query', btoa(JSON.stringify(['AQ']))],
+    ])('should throw on %s cursor', async (_, cursor) => {
+      await expect(view.page({ type: TYPE, by: FIELD1, after: cursor as EntityCursor }))
+        .rejects.toEqual(new TypeError('invalid cursor'));
+    });
+  });
+
+  describe('search', () => {
+    it('should return ranked Ids of entities matching full-text query', async () => {
+      const textStore = new MapTripleStore<MockId, V>(void 0, void 0, void 0, new FullTextIndex(new Set([FIELD3])));
+      state = new DefaultEntityStore<MockId, V>(() => textStore);
+      view = new ReadonlyOREntityCollection(state);
+      await applyCommands(
+        { type: EntityCommandType.Update, nonce: '3', root: ROOT, payload: { cmd: { [FIELD3]: { set: 'Quick brown fox' } }, type: TYPE } },
+        { type: EntityCommandType.Update, nonce: '4', root: ROOT2, payload: { cmd: { [FIELD3]: { set: 'Brown bear' } }, type: TYPE } },
+      );
+      expect(await collect(view.search('brown fox', { type: TYPE }))).toEqual([ROOT, ROOT2]);
+      expect(await collect(view.search('brown', { type: TYPE, limit: 1 }))).toEqual([ROOT]);
+
+      await applyCommands({ type: EntityCommandType.Delete, nonce: '5', root: ROOT, payload: { cmd: {}, type: TYPE } });
+      expect(await collect(view.search('brown fox', { type: TYPE }))).toEqual([ROOT2]);
+    });
+
+    it('should throw if full-text search is not configured', async () => {
+      await expect(collect(view.search('brown', { type: TYPE })))
+        .rejects.toEqual(new TypeError('full-text index not configured'));
+    });
+  });
+
+  const EXPECTED_ENTRIES_FOR_QUERY = [
+    [{ type: TYPE }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }], [ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]],
+    [{ type: TYPE, reverse: true, limit: 1 }, [[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]],
+    [{ type: TYPE, where: { [FIELD1]: { eq: VALUE1 } } }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]],
+    [{ type: TYPE, where: { [FIELD2]: { in: [VALUE3, VALUE0] } } }, [[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]],
+    [{ type: TYPE, where: { [FIELD1]: { lower: VALUE1 }, [FIELD0]: { eq: VALUE0 } } }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]],
+    [{ type: TYPE, where: { [FIELD1]: { lower: VALUE1, lowerOpen: true } } }, [[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]],
+    [{ type: TYPE, where: { [FIELD0]: { eq: VALUE2 } } }, []],
+    [{ type: TYPE, where: { [FIELD1]: { lower: VALUE1 } }, reverse: true, offset: 1 }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]],
+    [{ type: TYPE, orderBy: FIELD2, attr: { [FIELD1]: true } }, [[ROOT2, { [FIELD1]: VALUE2 }]]],
+    [{ type: TYPE, orderBy: FIELD1, reverse: true, offset: 1 }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]],
+    [{ type: TYPE, where: { [FIELD1]: { upper: VALUE2, upperOpen: false } }, orderBy: FIELD1, limit: 1 }, [[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]],
+  ] satisfies [EntityQueryOptions<V>, [MockId, Record<string, unknown>][]][];
+
+  describe('query', () => {
+    it.each(EXPECTED_ENTRIES_FOR_QUERY)('should return correct results %#', async (query, expected) => {
+      const results = await collect(view.query(query));
+      expect(results).toEqual(expected);
+    });
+
+    it('should scan the index of only the most selective filter and probe the others', async () => {
+      const keysByAttr = jest.spyOn(store, 'keysByAttr');
+      expect(await collect(view.query({ type: TYPE, where: { [FIELD1]: { lower: VALUE1 }, [FIELD0]: { eq: VALUE0 } } })))
+        .toEqual([[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]);
+      expect(keysByAttr).toHaveBeenCalledTimes(1);
+      expect(keysByAttr.mock.calls[0][0]).toMatchObject({ lower: [FIELD0, expect.any(String)] });
+    });
+
+    it('should bound the index scan of ordered attribute by its filter', async () => {
+      const keysByAttr = jest.spyOn(store, 'keysByAttr');
+      expect(await collect(view.query({ type: TYPE, where: { [FIELD1]: { eq: VALUE2 } }, orderBy: FIELD1 })))
+        .toEqual([[ROOT2, { [FIELD1]: VALUE2, [FIELD2]: VALUE2 }]]);
+      expect(keysByAttr).toHaveBeenCalledTimes(1);
+      expect(keysByAttr.mock.calls[0][0]).toMatchObject({ lower: [FIELD1, expect.any(String)], upperOpen: false });
+    });
+  });
+
   describe('valuesByAttr', () => {
     it.each(EXPECTED_ENTRIES)('should return correct results for id queries %#', async (query, expected) => {
       const results = await collect(view.valuesByAttr(query));
@@ -208,6 +367,123 @@ describe(ReadonlyOREntityCollection.name, () => {
     });
   });
 
+  describe('references', () => {
+    const USER_TYPE = 'user';
+    const POST_TYPE = 'post';
+    const CMD_USER1 = {
+      type: EntityCommandType.Update, nonce: '11', payload: { cmd: { name: { set: 'bob' } }, type: USER_TYPE }
+    } satisfies EntityCommand<MockId, V>;
+    const USER1 = getMockEventKey(CMD_USER1);
+    const CMD_USER2 = {
+      type: EntityCommandType.Update, nonce: '12',
+      payload: { cmd: { name: { set: 'alice' }, manager: { set: USER1 } }, type: USER_TYPE }
+    } satisfies EntityCommand<MockId, V>;
+    const USER2 = getMockEventKey(CMD_USER2);
+    const CMD_POST1 = {
+      type: EntityCommandType.Update, nonce: '21',
+      payload: { cmd: { title: { set: 't1' }, author: { set: USER2 } }, type: POST_TYPE }
+    } satisfies EntityCommand<MockId, V>;
+    const CMD_POST2 = {
+      type: EntityCommandType.Update, nonce: '22',
+      payload: { cmd: { title: { set: 't2' }, author: { set: ROOT3 } }, type: POST_TYPE }
+    } satisfies EntityCommand<MockId, V>;
+    const LOOKUP = {
+      title: true,
+      author: { type: USER_TYPE, ref: { name: true, manager: { ref: { name: true } } } },
+    } as const;
+
+    let stores: Map<string, MapTripleStore<MockId, V>>;
+
+    beforeEach(async () => {
+      stores = new Map();
+      state = new DefaultEntityStore<MockId, V>((type) => {
+        const store = new MapTripleStore<MockId, V>();
+        stores.set(type, store);
+        return store;
+      });
+      view = new ReadonlyOREntityCollection(state);
+      await applyCommands(CMD_USER1, CMD_USER2, CMD_POST1, CMD_POST2);
+    });
+
+    it('should expand referenced entities across types', async () => {
+      expect(await view.get(getMockEventKey(CMD_POST1), { type: POST_TYPE, attr: LOOKUP })).toEqual({
+        title: 't1',
+        author: { name: 'alice', manager: { name: 'bob' } },
+      });
+    });
+
+    it('should expand references of entries in batch', async () => {
+      const findMany = jest.spyOn(stores.get(USER_TYPE)!, 'findMany');
+      expect(await collect(view.entries({ type: POST_TYPE, attr: LOOKUP }))).toEqual([
+        [getMockEventKey(CMD_POST1), { title: 't1', author: { name: 'alice', manager: { name: 'bob' } } }],
+        [getMockEventKey(CMD_POST2), { title: 't2', author: ROOT3 }],
+      ]);
+      expect(findMany).toHaveBeenCalledTimes(2); // once per reference depth
+    });
+
+    it('should keep Ids of missing or deleted referenced entities', async () => {
+      await applyCommands({ type: EntityCommandType.Delete, nonce: '13', root: USER1, payload: { cmd: {}, type: USER_TYPE } });
+      expect(await view.get(getMockEventKey(CMD_POST1), { type: POST_TYPE, attr: LOOKUP })).toEqual({
+        title: 't1',
+        author: { name: 'alice', manager: USER1 },
+      });
+      expect(await view.get(getMockEventKey(CMD_POST2), { type: POST_TYPE, attr: LOOKUP })).toEqual({
+        title: 't2',
+        author: ROOT3,
+      });
+    });
+
+    it('should not expand references beyond max depth', async () => {
+      view = new ReadonlyOREntityCollection(state, void 0, void 0, 1);
+      expect(await view.get(getMockEventKey(CMD_POST1), { type: POST_TYPE, attr: LOOKUP })).toEqual({
+        title: 't1',
+        author: { name: 'alice', manager: USER1 },
+      });
+    });
+  });
+
+  describe('deleted entities', () => {
+    const CMD_DEL = {
+      type: EntityCommandType.Delete, nonce: '5', root: ROOT2, payload: { cmd: {}, type: TYPE }
+    } satisfies EntityCommand<MockId, V>;
+
+    it('should skip deleted entity', async () => {
+      await applyCommands(CMD_DEL);
+      expect(await view.get(ROOT2, { type: TYPE })).toBeUndefined();
+      expect(await view.has(ROOT2, { type: TYPE })).toBe(false);
+      expect(await collect(view.keys({ type: TYPE }))).toEqual([ROOT]);
+      expect(await collect(view.keysByAttr({ type: TYPE, by: FIELD1 }))).toEqual([ROOT]);
+      expect(await collect(view.query({ type: TYPE, where: { [FIELD1]: { upper: VALUE2, upperOpen: false } } })))
+        .toEqual([[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]);
+    });
+
+    it('should check tombstones of matched entities in batch', async () => {
+      await applyCommands(CMD_DEL);
+      const findMany = jest.spyOn(store, 'findMany');
+      const keys = jest.spyOn(store, 'keys');
+      expect(await collect(view.keysByAttr({ type: TYPE, by: FIELD1 }))).toEqual([ROOT]);
+      expect(findMany).toHaveBeenCalledTimes(1);
+      expect(keys).not.toHaveBeenCalled();
+    });
+
+    it('should not resurrect deleted entity on later update', async () => {
+      await applyCommands(CMD_DEL, {
+        type: EntityCommandType.Update, nonce: '7', root: ROOT2, payload: { cmd: { [FIELD3]: { add: [VALUE0] } }, type: TYPE }
+      });
+      expect(await view.get(ROOT2, { type: TYPE })).toBeUndefined();
+    });
+
+    it('should not resurrect deleted entity on concurrent update', async () => {
+      const event = await command.handle(state, {
+        type: EntityCommandType.Update, nonce: '3', root: ROOT2, payload: { cmd: { [FIELD3]: { add: [VALUE0] } }, type: TYPE }
+      });
+      await applyCommands(CMD_DEL);
+      await projection.reduce(state, event!);
+      expect(await view.get(ROOT2, { type: TYPE })).toBeUndefined();
+      expect(await collect(view.entries({ type: TYPE }))).toEqual([[ROOT, { [FIELD0]: VALUE0, [FIELD1]: VALUE1 }]]);
+    });
+  });
+
   async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
     for (const cmd of cmds) {
       await projection.reduce(state, (await command.handle(state, cmd))!);
@@ -91,6 +91,15 @@ describe(ReadonlyORMap.name, () => {
     });
   });
 
+  describe('getTree', () => {
+    it('should return ReadonlyTree rooted at map entity', () => {
+      const tree = map.getTree(FIELD1);
+      expect(tree['store']).toBe(store);
+      expect(tree['entityId']).toBe(ROOT);
+      expect(tree['attr']).toBe(FIELD1);
+    });
+  });
+
   describe('getSet', () => {
     it('should return ReadonlyORSet of given attribute', () => {
       const lseq = map.getSet(FIELD1);
@@ -112,6 +121,30 @@ describe(ReadonlyORMap.name, () => {
     });
   });
 
+  describe('getConflicts', () => {
+    it('should return all concurrent values with transaction Ids', async () => {
+      await applyCommands(CMD_NEW);
+      const event1 = await command.handle(state, CMD_ADD);
+      const event2 = await command.handle(state, CMD_UPDEL);
+      await projection.reduce(state, event1!);
+      await projection.reduce(state, event2!);
+
+      expect(await map.getConflicts(FIELD2)).toEqual([
+        [VALUE2, getMockEventKey(CMD_ADD)], [VALUE22, getMockEventKey(CMD_UPDEL)], [VALUE3, getMockEventKey(CMD_ADD)]
+      ]);
+    });
+
+    it('should return single value for non-conflicting field', async () => {
+      await applyCommands(CMD_ADD);
+      expect(await map.getConflicts(FIELD1)).toEqual([[VALUE1, getMockEventKey(CMD_ADD)]]);
+    });
+
+    it('should return empty array for non-existent field', async () => {
+      await applyCommands(CMD_ADD);
+      expect(await map.getConflicts(FIELD3)).toEqual([]);
+    });
+  });
+
   describe('has', () => {
     it('should return true for existing field', async () => {
       await applyCommands(CMD_ADD);
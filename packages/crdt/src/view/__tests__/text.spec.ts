@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import {
+  EntityCommand, EntityCommandHandler, EntityCommandType, EntityProjection, OREntityCommandHandler, OREntityProjection
+} from '../../mutation/index.ts';
+import { ReadonlyText } from '../text.ts';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { collect } from '../../__tests__/utils.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+
+type V = string | number;
+
+const TYPE = 'text';
+const ROOT = new MockId(new Uint8Array(1));
+const FIELD = 'field';
+
+describe(ReadonlyText.name, () => {
+  let store: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let command: EntityCommandHandler<MockId, V>;
+  let projection: EntityProjection<MockId, V>;
+  let text: ReadonlyText<V, MockId>;
+  let nonce: number;
+
+  beforeEach(async () => {
+    store = new MapTripleStore();
+    state = new DefaultEntityStore<MockId, V>((type) => {
+      expect(type).toBe(TYPE);
+      return store;
+    });
+    command = new OREntityCommandHandler<MockId, V>();
+    projection = new OREntityProjection(getMockEventKey);
+    text = new ReadonlyText(store, ROOT, FIELD);
+    nonce = 1;
+
+    await applyCommands(spliceCommand('', 0, 'Hello'));
+  });
+
+  it('should have correct string tag', () => {
+    expect(text.toString()).toBe(`[object ${ReadonlyText.name}]`);
+  });
+
+  describe('text', () => {
+    it('should return inserted text', async () => {
+      expect(await text.text()).toBe('Hello');
+    });
+
+    it('should return empty string for empty text', async () => {
+      expect(await new ReadonlyText(store, ROOT, 'missing').text()).toBe('');
+    });
+
+    it('should insert text at given positions', async () => {
+      await applyCommands(spliceCommand('', 0, ' world'));
+      await applyCommands(spliceCommand(await text.posAt(0), 0, '>'));
+      await applyCommands(spliceCommand(await text.posAt(3), 0, 'y'));
+      await applyCommands(spliceCommand(await text.posAt(4), 0, '!'));
+      expect(await text.text()).toBe('>Hey!llo world');
+    });
+
+    it('should delete text at given positions', async () => {
+      await applyCommands(spliceCommand('', 0, ' world'));
+      await applyCommands(spliceCommand(await text.posAt(3), 5, 'p me'));
+      expect(await text.text()).toBe('Help merld');
+      await applyCommands(spliceCommand(await text.posAt(0), 4));
+      expect(await text.text()).toBe(' merld');
+    });
+
+    it('should merge concurrent edits', async () => {
+      const event1 = await command.handle(state, spliceCommand(await text.posAt(1), 3, 'ipp'));
+      const event2 = await command.handle(state, spliceCommand(await text.posAt(4), 0, '!'));
+      const event3 = await command.handle(state, spliceCommand(await text.posAt(2), 2));
+      await projection.reduce(state, event1!);
+      await projection.reduce(state, event2!);
+      await projection.reduce(state, event3!);
+
+      expect(await text.text()).toBe('Hipp!o');
+    });
+  });
+
+  describe('posAt / offsetOf', () => {
+    it('should return positions that are stable under concurrent edits', async () => {
+      const pos = await text.posAt(2);
+      expect(await text.offsetOf(pos)).toBe(2);
+
+      await applyCommands(spliceCommand(await text.posAt(0), 1, 'Oh, h'));
+      expect(await text.offsetOf(pos)).toBe(6);
+      expect(await text.posAt(6)).toBe(pos);
+    });
+
+    it('should return end position for offset beyond text', async () => {
+      expect(await text.posAt(5)).toBe('');
+      expect(await text.offsetOf('')).toBe(5);
+    });
+  });
+
+  describe('spans', () => {
+    it('should return spans of text with formatting marks', async () => {
+      await applyCommands({
+        type: EntityCommandType.Update, nonce: `${++nonce}`, root: ROOT,
+        payload: { cmd: { [FIELD]: { mark: [await text.posAt(1), await text.posAt(3), 'link', 'url'] } }, type: TYPE },
+      });
+      await applyCommands(spliceCommand(await text.posAt(2), 0, 'y'));
+
+      expect(await collect(text.spans())).toEqual([['H', {}], ['eyll', { link: 'url' }], ['o', {}]]);
+    });
+  });
+
+  describe('entries', () => {
+    it('should iterate characters with positions', async () => {
+      const results = await collect(text);
+      expect(results.map(([, char]) => char)).toEqual(['H', 'e', 'l', 'l', 'o']);
+      expect(await collect(text.keys())).toEqual(results.map(([pos]) => pos));
+      expect(await collect(text.values())).toEqual(results.map(([, char]) => char));
+    });
+  });
+
+  function spliceCommand(pos: string, deleteCount: number, insert?: string): EntityCommand<MockId, V> {
+    return {
+      type: EntityCommandType.Update, nonce: `${++nonce}`, root: ROOT,
+      payload: { cmd: { [FIELD]: { text: [pos, deleteCount, insert] } }, type: TYPE },
+    };
+  }
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      await projection.reduce(state, (await command.handle(state, cmd))!);
+    }
+  }
+});
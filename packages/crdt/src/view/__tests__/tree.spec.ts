@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MapTripleStore } from '@mithic/collections';
+import { MockId, getMockEventKey } from '../../__tests__/mocks.ts';
+import { collect } from '../../__tests__/utils.ts';
+import { ReadonlyTree } from '../tree.ts';
+import {
+  EntityCommand, EntityCommandHandler, EntityCommandType, EntityProjection, OREntityCommandHandler, OREntityProjection
+} from '../../mutation/index.ts';
+import { DefaultEntityStore, EntityStore } from '../../store.ts';
+
+type V = MockId | string;
+
+const TYPE = 'tree';
+const ATTR = '$parent';
+
+const CMD_ROOT = {
+  type: EntityCommandType.Update, nonce: '1',
+  payload: { cmd: { name: { set: 'root' } }, type: TYPE }
+} satisfies EntityCommand<MockId, V>;
+const ROOT = getMockEventKey(CMD_ROOT);
+const CMD_A = newNodeCommand('2', ROOT);
+const A = getMockEventKey(CMD_A);
+const CMD_B = newNodeCommand('3', ROOT);
+const B = getMockEventKey(CMD_B);
+const CMD_C = newNodeCommand('4', A);
+const C = getMockEventKey(CMD_C);
+
+describe(ReadonlyTree.name, () => {
+  let store: MapTripleStore<MockId, V>;
+  let state: EntityStore<MockId, V>;
+  let command: EntityCommandHandler<MockId, V>;
+  let projection: EntityProjection<MockId, V>;
+  let tree: ReadonlyTree<V, MockId>;
+  let time: number;
+
+  beforeEach(async () => {
+    store = new MapTripleStore();
+    state = new DefaultEntityStore<MockId, V>((type) => {
+      expect(type).toBe(TYPE);
+      return store;
+    });
+    command = new OREntityCommandHandler<MockId, V>();
+    projection = new OREntityProjection(getMockEventKey);
+    tree = new ReadonlyTree(store, ROOT, ATTR);
+    time = 0;
+    await applyCommands(CMD_ROOT, CMD_A, CMD_B, CMD_C);
+  });
+
+  it('should have correct string tag', () => {
+    expect(tree.toString()).toBe(`[object ${ReadonlyTree.name}]`);
+  });
+
+  describe('parent', () => {
+    it('should return parent of entity', async () => {
+      expect(await tree.parent(C)).toEqual(A);
+    });
+
+    it('should return undefined for entity without parent', async () => {
+      expect(await tree.parent(ROOT)).toBeUndefined();
+    });
+  });
+
+  describe('children', () => {
+    it('should iterate children of root by default', async () => {
+      expect(await collect(tree.children())).toEqual([A, B]);
+    });
+
+    it('should iterate children of given entity', async () => {
+      expect(await collect(tree.children(A))).toEqual([C]);
+      expect(await collect(tree.children(C))).toEqual([]);
+    });
+  });
+
+  describe('ancestors', () => {
+    it('should iterate ancestors of entity from its parent', async () => {
+      expect(await collect(tree.ancestors(C))).toEqual([A, ROOT]);
+    });
+  });
+
+  describe('subtree', () => {
+    it('should iterate descendants in depth-first pre-order', async () => {
+      expect(await collect(tree)).toEqual([A, C, B]);
+      expect(await collect(tree.subtree(A))).toEqual([C]);
+    });
+  });
+
+  describe('move', () => {
+    it('should move subtree to new parent', async () => {
+      await applyCommands(moveCommand('5', A, B));
+      expect(await collect(tree)).toEqual([B, A, C]);
+      expect(await collect(tree.ancestors(C))).toEqual([A, B, ROOT]);
+    });
+
+    it('should apply the latest of concurrent moves of the same entity', async () => {
+      const event1 = await command.handle(state, moveCommand('5', C, B));
+      const event2 = await command.handle(state, moveCommand('6', C, ROOT));
+      await projection.reduce(state, { ...event2!, time: 11 });
+      await projection.reduce(state, { ...event1!, time: 10 });
+      expect(await collect(tree)).toEqual([A, B, C]);
+    });
+
+    it('should ignore concurrent move that would introduce a cycle', async () => {
+      const event1 = await command.handle(state, moveCommand('5', A, B));
+      const event2 = await command.handle(state, moveCommand('6', B, C));
+      await projection.reduce(state, { ...event2!, time: 11 });
+      await projection.reduce(state, { ...event1!, time: 10 });
+      expect(await collect(tree)).toEqual([B, A, C]);
+      expect(await tree.parent(B)).toEqual(ROOT);
+    });
+
+    it('should fall back to the effective parent rather than a rejected one when a later move is rejected', async () => {
+      const event1 = await command.handle(state, moveCommand('5', A, B));
+      const event2 = await command.handle(state, moveCommand('6', B, A));
+      await projection.reduce(state, { ...event1!, time: 10 });
+      await projection.reduce(state, { ...event2!, time: 11 });
+      expect(await tree.parent(B)).toEqual(ROOT);
+
+      const cmdD = newNodeCommand('7', ROOT);
+      const D = getMockEventKey(cmdD);
+      await applyCommands(cmdD);
+      const event3 = await command.handle(state, moveCommand('8', B, D));
+      const event4 = await command.handle(state, moveCommand('9', D, B));
+      await projection.reduce(state, { ...event4!, time: 12 });
+      await projection.reduce(state, { ...event3!, time: 13 });
+      expect(await tree.parent(B)).toEqual(ROOT);
+      expect(await tree.parent(D)).toEqual(B);
+      expect(await collect(tree.ancestors(C))).toEqual([A, B, ROOT]);
+    });
+  });
+
+  describe('deleted entities', () => {
+    it('should exclude entities deleted concurrently with their move and their descendants', async () => {
+      const event1 = await command.handle(state, moveCommand('5', A, B));
+      const event2 = await command.handle(state, {
+        type: EntityCommandType.Delete, nonce: '6', root: A, payload: { cmd: {}, type: TYPE },
+      });
+      await projection.reduce(state, { ...event2!, time: 10 });
+      await projection.reduce(state, { ...event1!, time: 11 });
+      expect(await collect(tree)).toEqual([B]);
+      expect(await collect(tree.children(B))).toEqual([]);
+      expect(await tree.parent(A)).toBeUndefined();
+      expect(await tree.parent(C)).toBeUndefined();
+      expect(await collect(tree.ancestors(C))).toEqual([]);
+    });
+  });
+
+  async function applyCommands(...cmds: EntityCommand<MockId, V>[]) {
+    for (const cmd of cmds) {
+      await projection.reduce(state, { ...(await command.handle(state, cmd))!, time: ++time });
+    }
+  }
+});
+
+function newNodeCommand(nonce: string, parent: MockId): EntityCommand<MockId, V> {
+  return { type: EntityCommandType.Update, nonce, payload: { cmd: { [ATTR]: { parent } }, type: TYPE } };
+}
+
+function moveCommand(nonce: string, node: MockId, parent: MockId): EntityCommand<MockId, V> {
+  return { type: EntityCommandType.Update, nonce, root: node, payload: { cmd: { [ATTR]: { parent } }, type: TYPE } };
+}
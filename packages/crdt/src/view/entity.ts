@@ -1,5 +1,6 @@
 import {
-  MaybeAsyncReadonlyMap, MaybeAsyncReadonlyMapBatch, RangeQueryOptions, RangeQueryable
+  LimitOptions, MaybeAsyncReadonlyMap, MaybeAsyncReadonlyMapBatch, OrderOptions, Range, RangeQueryOptions,
+  RangeQueryable
 } from '@mithic/collections';
 import { AbortOptions, MaybeAsyncIterableIterator, MaybePromise } from '@mithic/commons';
 
@@ -16,6 +17,15 @@ export interface ReadonlyEntityCollection<Id, V>
     ids: Iterable<Id>, options?: EntityViewOptions<V, L>
   ): MaybeAsyncIterableIterator<EntityView<V, L> | undefined>;
 
+  /**
+   * Returns all concurrent values of given entity attribute with their originating transaction Ids.
+   * The attribute is in conflict if more than 1 value is returned.
+   */
+  getConflicts(id: Id, attr: string, options?: EntityTypeOptions): MaybePromise<[value: V, txId: Id][]>;
+
+  /** Returns all concurrent values of given entity attribute with their authors, if signed and tracked by store. */
+  getAuthors(id: Id, attr: string, options?: EntityTypeOptions): MaybePromise<[value: V, author?: string][]>;
+
   has(id: Id, options?: EntityTypeOptions): MaybePromise<boolean>;
 
   hasMany(ids: Iterable<Id>, options?: EntityTypeOptions): MaybeAsyncIterableIterator<boolean>;
@@ -41,6 +51,20 @@ export interface ReadonlyEntityCollection<Id, V>
   valuesByAttr<L extends EntityAttrLookup<V>>(
     options?: EntityAttrRangeQueryOptions<V, L>
   ): MaybeAsyncIterableIterator<EntityView<V, L>>;
+
+  /**
+   * Returns a page of entities matching given attribute range query, with a cursor to resume after the page.
+   * Pass the cursor as `after` option to get the next page.
+   */
+  page<L extends EntityAttrLookup<V>>(options?: EntityAttrRangeQueryOptions<V, L>): MaybePromise<EntityPage<Id, V, L>>;
+
+  /** Searches entities by full-text query on indexed attributes, returning Ids in descending order of relevance. */
+  search(query: string, options?: EntitySearchOptions): MaybeAsyncIterableIterator<Id>;
+
+  /** Queries entities matching all given attribute filters, in given order. */
+  query<L extends EntityAttrLookup<V>>(
+    options?: EntityQueryOptions<V, L>
+  ): MaybeAsyncIterableIterator<[Id, EntityView<V, L>]>;
 }
 
 /** Entity view options for {@link ReadonlyEntityCollection}. */
@@ -51,7 +75,10 @@ export interface EntityViewOptions<V, L extends EntityAttrLookup<V> = EntityAttr
 
 /** Entity range query options for a {@link ReadonlyEntityCollection}. */
 export interface EntityRangeQueryOptions<K, V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>>
-  extends RangeQueryOptions<K>, EntityViewOptions<V, L> { }
+  extends RangeQueryOptions<K>, EntityViewOptions<V, L> {
+  /** Cursor of the previous page to resume the query after. */
+  readonly after?: EntityCursor;
+}
 
 /** Entity attribute range query options for a {@link ReadonlyEntityCollection}. */
 export interface EntityAttrRangeQueryOptions<V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>>
@@ -60,6 +87,48 @@ export interface EntityAttrRangeQueryOptions<V, L extends EntityAttrLookup<V> =
   readonly by?: string;
 }
 
+/** Compound entity query options for a {@link ReadonlyEntityCollection}. */
+export interface EntityQueryOptions<V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>>
+  extends EntityViewOptions<V, L>, OrderOptions, LimitOptions {
+  /** Filters by attribute, which must all match. An attribute matches if any of its values matches. */
+  readonly where?: Readonly<Record<string, EntityAttrFilter<V> | undefined>>;
+
+  /** Attribute to order by. Defaults to $id. Entities without the attribute are excluded. */
+  readonly orderBy?: string;
+
+  /** Number of results to skip. */
+  readonly offset?: number;
+}
+
+/**
+ * Filter on an entity attribute for {@link EntityQueryOptions}.
+ * Values are compared by their string forms.
+ */
+export type EntityAttrFilter<V> =
+  { readonly eq: V } |
+  { readonly in: readonly V[] } |
+  Range<V>;
+
+/** Full-text search options for a {@link ReadonlyEntityCollection}. */
+export interface EntitySearchOptions extends EntityTypeOptions, LimitOptions {
+  /** Attribute to search. Defaults to all indexed attributes. */
+  readonly attr?: string;
+}
+
+/** Page of entity query results from {@link ReadonlyEntityCollection}. */
+export interface EntityPage<Id, V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>> {
+  /** Entities in the page. */
+  readonly entries: [Id, EntityView<V, L>][];
+
+  /** Cursor to resume the query after this page, if the page is full. The next page may be empty. */
+  readonly cursor?: EntityCursor;
+}
+
+declare const entityCursor: unique symbol;
+
+/** Opaque cursor string to resume an entity query of the same options after the last entity of a page. */
+export type EntityCursor = string & { readonly [entityCursor]: true };
+
 /** Entity type options for {@link ReadonlyEntityCollection}. */
 export interface EntityTypeOptions extends AbortOptions {
   /** Entity type to use. */
@@ -68,12 +137,27 @@ export interface EntityTypeOptions extends AbortOptions {
 
 /** Entity attribute lookup. */
 export type EntityAttrLookup<V> = {
-  readonly [key: string]: EntityAttrReducer<V> | true | undefined;
+  readonly [key: string]: EntityAttrReducer<V> | EntityRefLookup<V> | true | undefined;
 };
 
+/**
+ * Lookup of the entity referenced by the Id value of an attribute.
+ * The Id is kept as is if the referenced entity does not exist or is beyond the max reference depth.
+ */
+export interface EntityRefLookup<V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>> {
+  /** Attributes to retrieve from referenced entity. */
+  readonly ref: L;
+
+  /** Type of referenced entity. Defaults to the type of referencing entity. */
+  readonly type?: string;
+}
+
 /** Entity view for {@link ReadonlyEntityCollection}. */
 export type EntityView<V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>> = {
-  readonly [K in keyof L & string]: (L[K] extends EntityAttrReducer<V, infer T> ? T : V) | undefined;
+  readonly [K in keyof L & string]: (
+    L[K] extends EntityRefLookup<V, infer R> ? EntityView<V, R> | V :
+    L[K] extends EntityAttrReducer<V, infer T> ? T : V
+  ) | undefined;
 };
 
 /** Reduce function for an entity attribute lookup. */
@@ -3,3 +3,6 @@ export * from './lseq.ts';
 export * from './orentity.ts';
 export * from './ormap.ts';
 export * from './orset.ts';
+export * from './text.ts';
+export * from './tree.ts';
+export * from './live.ts';
@@ -0,0 +1,313 @@
+import { compareMultiKeys } from '@mithic/collections';
+import {
+  AbortOptions, AsyncDisposableCloseable, ContentId, MaybePromise, Startable, ToString
+} from '@mithic/commons';
+import {
+  MessageBus, MessageHandler, MessageSubscription, SimpleMessageBus, Unsubscribe
+} from '@mithic/messaging';
+import { defaultStringify } from '../defaults.ts';
+import { EntityChangeSet } from '../mutation/index.ts';
+import { ENTITY_TOMBSTONE_ATTR, ReadonlyEntityStore } from '../store.ts';
+import { EntityAttrLookup, EntityAttrRangeQueryOptions, EntityView } from './entity.ts';
+import { ReadonlyOREntityCollection } from './orentity.ts';
+
+const ID_FIELD = '$id';
+const BATCH_SIZE = 50;
+
+/** Changes to the results of a {@link LiveEntityQuery}. */
+export interface EntityQueryDiff<Id, V, L extends EntityAttrLookup<V> = EntityAttrLookup<V>> {
+  /** Entities added to results. */
+  readonly added: readonly (readonly [id: Id, view: EntityView<V, L>])[];
+
+  /** Entities in results with updated views. */
+  readonly updated: readonly (readonly [id: Id, view: EntityView<V, L>])[];
+
+  /** Ids of entities removed from results. */
+  readonly removed: readonly Id[];
+}
+
+/**
+ * Live entity attribute range query, which maintains its results incrementally from entity change sets,
+ * and emits the differences as {@link EntityQueryDiff}.
+ * Only entities in change sets are reevaluated, so changes to referenced entities are not reflected.
+ * Only the results within the query limit are kept, which are reloaded when an entity leaves a full window.
+ * If processing a change set fails, the query is closed with the error.
+ */
+export class LiveEntityQuery<
+  Id extends ToString = ContentId, V = string | number | Id, L extends EntityAttrLookup<V> = EntityAttrLookup<V>
+> extends AsyncDisposableCloseable
+  implements Startable, MessageSubscription<EntityQueryDiff<Id, V, L>>, AsyncIterable<EntityQueryDiff<Id, V, L>> {
+
+  /** Matching entities within the query limit with their sort keys, in query order. */
+  protected matches: [id: Id, view: EntityView<V, L>, sortKey: readonly unknown[]][] = [];
+  /** Sort keys of entities in matches by Id string. */
+  protected readonly sortKeysById = new Map<string, readonly unknown[]>();
+  /** Whether there may be more matching entities after the last of `matches`, which is then the boundary. */
+  protected full = false;
+  /** Error that closed the query, if any. */
+  protected failure?: unknown;
+  /** Promise of the last processed change set. */
+  protected pending: Promise<void> = Promise.resolve();
+  /** Handle to unsubscribe from change sets. */
+  protected unsubscribe?: Unsubscribe;
+  /** Callbacks to wake up iterators. */
+  protected readonly waiters = new Set<() => void>();
+
+  public constructor(
+    /** The store state. */
+    protected readonly state: ReadonlyEntityStore<Id, V>,
+    /** Subscription to entity change sets of the store. */
+    protected readonly changes: MessageSubscription<EntityChangeSet<Id, V>>,
+    /** The query. */
+    protected readonly query: EntityAttrRangeQueryOptions<V, L> = {},
+    /** Function for converting value to string. */
+    protected readonly stringify: (value: V, options?: AbortOptions) => MaybePromise<string> = defaultStringify,
+    /** Output bus of result differences. */
+    protected readonly bus: MessageBus<EntityQueryDiff<Id, V, L>> = new SimpleMessageBus(),
+    /** Collection to read entity views from, which should have the cipher and Id parser of the store, if any. */
+    protected readonly collection: ReadonlyOREntityCollection<Id, V> = new ReadonlyOREntityCollection(state, stringify),
+  ) {
+    super();
+    this.onChange = this.onChange.bind(this);
+  }
+
+  /** Returns the current query results. */
+  public get results(): [id: Id, view: EntityView<V, L>][] {
+    return this.matches.map(([id, view]) => [id, view]);
+  }
+
+  /** Returns the error that closed the query, if any. */
+  public get error(): unknown {
+    return this.failure;
+  }
+
+  public get started(): boolean {
+    return !!this.unsubscribe;
+  }
+
+  /**
+   * Runs the query and starts listening to changes. Initial results are emitted as added entities.
+   * Change sets received during the initial run are processed after it.
+   */
+  public async start(options?: AbortOptions): Promise<void> {
+    if (this.started) { return; }
+    this.unsubscribe = await this.changes.subscribe(this.onChange);
+    await (this.pending = this.pending.then(() => this.load(options)));
+  }
+
+  public async close(): Promise<void> {
+    await this.unsubscribe?.();
+    this.unsubscribe = void 0;
+    for (const wake of this.waiters) { wake(); }
+  }
+
+  public subscribe(handler: MessageHandler<EntityQueryDiff<Id, V, L>>): MaybePromise<Unsubscribe> {
+    return this.bus.subscribe(handler);
+  }
+
+  /** Iterates result differences, starting from the current results, until closed. Throws the error that closed it. */
+  public async * [Symbol.asyncIterator](): AsyncIterator<EntityQueryDiff<Id, V, L>> {
+    const queue: EntityQueryDiff<Id, V, L>[] = [];
+    let wake: (() => void) | undefined;
+    const unsubscribe = await this.subscribe((diff) => {
+      queue.push(diff);
+      wake?.();
+    });
+    try {
+      const results = this.results;
+      if (results.length) { yield { added: results, updated: [], removed: [] }; }
+      while (this.started) {
+        const diff = queue.shift();
+        if (diff) {
+          yield diff;
+          continue;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          this.waiters.add(resolve);
+        });
+        this.waiters.delete(wake!);
+      }
+      if (this.failure !== void 0) { throw this.failure; }
+    } finally {
+      await unsubscribe();
+    }
+  }
+
+  /**
+   * Handles an entity change set. Change sets are processed in order.
+   * Errors close the query instead of being thrown, as the change set has already been applied to the store.
+   */
+  protected onChange(changeSet: EntityChangeSet<Id, V>, options?: AbortOptions): Promise<void> {
+    return this.pending = this.pending
+      .then(() => this.reevaluate(changeSet, options))
+      .catch((error) => this.fail(error));
+  }
+
+  /** Closes the query with given error. */
+  protected async fail(error: unknown): Promise<void> {
+    if (!this.started) { return; }
+    this.failure = error;
+    await this.close();
+  }
+
+  /** Loads matching entities up to the query limit. */
+  protected async load(options?: AbortOptions): Promise<void> {
+    const limit = this.query.limit ?? Infinity;
+    const matches: [Id, EntityView<V, L>, readonly unknown[]][] = [];
+    let batch: [Id, EntityView<V, L>][] = [];
+    const addBatch = async () => {
+      const sortKeys = await this.sortKeys(batch.map(([id]) => id), options);
+      for (const [i, [id, view]] of batch.entries()) {
+        if (sortKeys[i]) { matches.push([id, view, sortKeys[i]!]); }
+      }
+      batch = [];
+    };
+    for await (const entry of this.collection.entriesByAttr({ ...this.query, ...options, limit })) {
+      batch.push(entry);
+      if (batch.length >= BATCH_SIZE) { await addBatch(); }
+    }
+    await addBatch();
+    await this.update(() => {
+      this.matches = matches;
+      this.full = matches.length >= limit;
+      this.sortKeysById.clear();
+      for (const [id, , sortKey] of matches) { this.sortKeysById.set(`${id}`, sortKey); }
+    }, options);
+  }
+
+  /** Reevaluates the entity of given change set against the query. */
+  protected async reevaluate(changeSet: EntityChangeSet<Id, V>, options?: AbortOptions): Promise<void> {
+    if (!this.started || changeSet.type !== this.query.type) { return; }
+    const by = this.query.by ?? ID_FIELD;
+    const lookup = this.query.attr;
+    if (lookup && !changeSet.attrs.some(({ attr }) => attr in lookup || attr === by || attr === ENTITY_TOMBSTONE_ATTR)) {
+      return;
+    }
+
+    const id = changeSet.id;
+    const [sortKey] = await this.sortKeys([id], options);
+    const view = sortKey && await this.collection.get(id, { ...this.query, ...options });
+    const index = this.indexOf(id);
+    const boundary = this.full ? this.matches[this.matches.length - 1]?.[2] : void 0;
+    const inWindow = !!sortKey && !!view && (!boundary || this.compare(sortKey, boundary) < 0);
+    if (index >= 0 && !inWindow && this.full) { // entity leaves a full window, which has to be refilled
+      return this.load(options);
+    }
+
+    await this.update(() => {
+      if (index >= 0) {
+        this.matches.splice(index, 1);
+        this.sortKeysById.delete(`${id}`);
+      }
+      if (!inWindow) { return; }
+      this.matches.splice(this.bisect(sortKey!), 0, [id, view!, sortKey!]);
+      this.sortKeysById.set(`${id}`, sortKey!);
+      if (this.matches.length > (this.query.limit ?? Infinity)) {
+        this.sortKeysById.delete(`${this.matches.pop()![0]}`);
+        this.full = true;
+      }
+    }, options);
+  }
+
+  /** Returns the index of given entity in matches, or -1 if not found. */
+  protected indexOf(id: Id): number {
+    const sortKey = this.sortKeysById.get(`${id}`);
+    return sortKey ? this.bisect(sortKey) : -1;
+  }
+
+  /** Returns the index in matches to insert given sort key at. */
+  protected bisect(sortKey: readonly unknown[]): number {
+    let low = 0, high = this.matches.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.compare(this.matches[mid][2], sortKey) < 0) { low = mid + 1; } else { high = mid; }
+    }
+    return low;
+  }
+
+  /** Applies given update to matches and dispatches the differences of results, if any. */
+  protected async update(fn: () => void, options?: AbortOptions): Promise<void> {
+    const before = new Map(this.results.map((entry) => [`${entry[0]}`, entry]));
+    fn();
+
+    const added: [Id, EntityView<V, L>][] = [];
+    const updated: [Id, EntityView<V, L>][] = [];
+    for (const [id, view] of this.results) {
+      const previous = before.get(`${id}`);
+      before.delete(`${id}`);
+      if (!previous) {
+        added.push([id, view]);
+      } else if (!equalValues(previous[1], view)) {
+        updated.push([id, view]);
+      }
+    }
+    const removed = [...before.values()].map(([id]) => id);
+
+    if (added.length || updated.length || removed.length) {
+      await this.bus.dispatch({ added, updated, removed }, options);
+    }
+  }
+
+  /**
+   * Returns the sort keys of given entities, in a single query to the store.
+   * The sort key of an entity is undefined if it does not match the query range.
+   */
+  protected async sortKeys(ids: readonly Id[], options?: AbortOptions): Promise<(readonly unknown[] | undefined)[]> {
+    const { by = ID_FIELD, lower, upper, lowerOpen = false, upperOpen = true, reverse = false } = this.query;
+    if (by === ID_FIELD) {
+      return ids.map((id) => inRange<unknown>([id], lower, upper, lowerOpen, upperOpen) ? [id] : void 0);
+    }
+    if (!ids.length) { return []; }
+
+    const lowerTag = lower !== void 0 ? await this.stringify(lower, options) : void 0;
+    const upperTag = upper !== void 0 ? await this.stringify(upper, options) : void 0;
+    const sortKeys: (readonly unknown[] | undefined)[] = [];
+    let i = 0;
+    for await (const iter of this.state.store(this.query.type).findMany(ids.map((id) => [id, by]), options)) {
+      const id = ids[i++];
+      let sortKey: readonly unknown[] | undefined;
+      for await (const [[, , tag, txId]] of iter) {
+        if (!inRange([tag], lowerTag, upperTag, lowerOpen, upperOpen)) { continue; }
+        const key = [tag, txId, id];
+        if (!sortKey || (compareMultiKeys(key, sortKey) < 0) !== reverse) { sortKey = key; }
+      }
+      sortKeys.push(sortKey);
+    }
+    return sortKeys;
+  }
+
+  /** Compares given sort keys in query order. */
+  protected compare(a: readonly unknown[], b: readonly unknown[]): number {
+    return compareMultiKeys(a, b) * (this.query.reverse ? -1 : 1);
+  }
+
+}
+
+/** Returns if given view values are deeply equal. Ids and byte arrays are compared by their bytes. */
+function equalValues(a: unknown, b: unknown): boolean {
+  if (a === b) { return true; }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) { return false; }
+  if (ArrayBuffer.isView(a) || ArrayBuffer.isView((a as ContentId)['/'])) { return compareMultiKeys(a, b) === 0; }
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((value, i) => equalValues(value, b[i]));
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => equalValues((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/** Returns if given key is within given range. */
+function inRange<T>(
+  key: readonly T[], lower: T | undefined, upper: T | undefined, lowerOpen: boolean, upperOpen: boolean
+): boolean {
+  if (lower !== void 0) {
+    const order = compareMultiKeys(key, [lower]);
+    if (order < 0 || (lowerOpen && order === 0)) { return false; }
+  }
+  if (upper !== void 0) {
+    const order = compareMultiKeys(key, [upper]);
+    if (order > 0 || (upperOpen && order === 0)) { return false; }
+  }
+  return true;
+}
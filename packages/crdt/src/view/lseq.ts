@@ -1,10 +1,11 @@
 import {
-  EntityAttrSearchKey, MaybeAsyncReadonlyMap, MaybeAsyncReadonlyMapBatch, RangeQueryOptions, RangeQueryable,
+  EntityAttrKey, EntityAttrSearchKey, MaybeAsyncReadonlyMap, MaybeAsyncReadonlyMapBatch, RangeQueryOptions, RangeQueryable,
   ReadonlyTripleStore, rangeQueryable
 } from '@mithic/collections';
 import { AbortOptions, ContentId } from '@mithic/commons';
+import { Marks, lseqKey, lseqMoveWinners, markAttr, markSpans, parseLSeqTag } from '../utils/index.ts';
 
-/** Readonly observed-removed list. */
+/** Readonly observed-removed list, where each moved element is listed once at its winning index. */
 export class ReadonlyLSeq<V = unknown, Id = ContentId>
   implements MaybeAsyncReadonlyMap<string, V>, MaybeAsyncReadonlyMapBatch<string, V>,
   RangeQueryable<string, V>, AsyncIterable<V>
@@ -61,7 +62,37 @@ export class ReadonlyLSeq<V = unknown, Id = ContentId>
       upperOpen = options.upperOpen ?? true;
     }
 
-    for await (const [[_id, _attr, index], value] of this.store.entries({ ...options, lower, upper, upperOpen })) {
+    // yield elements that have never been moved as they come, and buffer those after the first moved copy
+    // until reaching the limit, to find winners of concurrent moves only for the moved copies in range
+    let limit = options?.limit ?? Infinity;
+    const buffer: [EntityAttrKey<Id>, V][] = [];
+    const identities = new Set<string>();
+    let unmoved = 0; // buffered elements that have never been moved, which are always listed
+    if (limit > 0) {
+      for await (const entry of this.store.entries({ ...options, lower, upper, upperOpen, limit: void 0 })) {
+        const [, identity, time] = parseLSeqTag(entry[0][2]);
+        if (time !== void 0) {
+          identities.add(identity);
+        } else if (!buffer.length) {
+          yield [entry[0][2], entry[1]];
+          if (--limit <= 0) { break; }
+          continue;
+        }
+        buffer.push(entry);
+        if (time === void 0 && ++unmoved >= limit) { break; }
+      }
+    }
+    if (!buffer.length) { return; }
+
+    const winners = await lseqMoveWinners(this.store.entries({
+      signal: options?.signal,
+      lower: [this.entityId, this.attr],
+      upper: [this.entityId, this.attr],
+      upperOpen: false,
+    }), identities);
+    for (const [[_id, _attr, index, txId], value] of buffer) {
+      if (parseLSeqTag(index)[2] !== void 0 && !winners.has(lseqKey(index, txId))) { continue; }
+      if (limit-- <= 0) { break; }
       yield [index, value];
     }
   }
@@ -74,6 +105,17 @@ export class ReadonlyLSeq<V = unknown, Id = ContentId>
     for await (const [, value] of this.entries(options)) { yield value; }
   }
 
+  /** Iterates spans of consecutive list values with the same formatting marks. */
+  public spans(options?: AbortOptions): AsyncIterableIterator<[values: V[], marks: Marks]> {
+    const attr = markAttr(this.attr);
+    return markSpans(this.entries(options), this.store.entries({
+      ...options,
+      lower: [this.entityId, attr],
+      upper: [this.entityId, attr],
+      upperOpen: false,
+    }));
+  }
+
   public [Symbol.asyncIterator](): AsyncIterator<V> {
     return this.values();
   }
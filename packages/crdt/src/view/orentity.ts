@@ -1,15 +1,21 @@
-import { EntityAttrKey, rangeQueryable } from '@mithic/collections';
+import { EntityAttrKey, EntityAttrSearchKey, compareMultiKeys, rangeQueryable } from '@mithic/collections';
 import { AbortOptions, ContentId, MaybeAsyncIterableIterator, MaybePromise, ToString } from '@mithic/commons';
 import {
   ReadonlyEntityCollection, EntityView, EntityAttrLookup, EntityTypeOptions, EntityViewOptions,
-  EntityRangeQueryOptions, EntityAttrRangeQueryOptions, EntityAttrReducer
+  EntityRangeQueryOptions, EntityAttrRangeQueryOptions, EntityAttrReducer, EntityRefLookup, EntityQueryOptions,
+  EntityAttrFilter, EntityCursor, EntityPage, EntitySearchOptions
 } from './entity.ts';
-import { defaultStringify } from '../defaults.ts';
-import { ReadonlyEntityStore } from '../store.ts';
+import { ReadonlyORMap } from './ormap.ts';
+import { defaultParseId, defaultStringify } from '../defaults.ts';
+import { EntityCipher } from '../mutation/encryption.ts';
+import { ENTITY_KEY_ATTR, ENTITY_TOMBSTONE_ATTR, ReadonlyEntityStore } from '../store.ts';
 
 const ID_FIELD = '$id';
 const TERMINAL = '\udbff\udfff';
 
+/** Range of attribute value tags, as `[lower, upper, lowerOpen, upperOpen]`. */
+type TagRange = [lower?: string, upper?: string, lowerOpen?: boolean, upperOpen?: boolean];
+
 /** Observed-removed {@link ReadonlyEntityCollection}. */
 export class ReadonlyOREntityCollection<
   Id extends ToString = ContentId, V = string | number | Id
@@ -21,19 +27,18 @@ export class ReadonlyOREntityCollection<
     protected readonly stringify: (value: V, options?: AbortOptions) => MaybePromise<string> = defaultStringify,
     /** Max size of a request batch. */
     protected readonly batchSize = 50,
+    /** Max depth of nested entity references to expand. References beyond this depth are returned as Ids. */
+    protected readonly maxRefDepth = 5,
+    /** Cipher for decrypting encrypted values. Lookups by encrypted attribute values are not supported. */
+    protected readonly cipher?: EntityCipher<V>,
+    /** Function for parsing Id from string, used to decode cursors. */
+    protected readonly parseId: (id: string) => Id = defaultParseId,
   ) { }
 
-  public async * getMany<L extends EntityAttrLookup<V>>(
+  public getMany<L extends EntityAttrLookup<V>>(
     ids: Iterable<Id>, options?: EntityViewOptions<V, L>
   ): MaybeAsyncIterableIterator<EntityView<V, L> | undefined> {
-    const store = this.state.store(options?.type);
-    outer: for await (const iter of store.findMany([...ids].map(id => [id]), options)) {
-      for await (const [, view] of this.collect(iter, options?.attr)) {
-        yield view;
-        continue outer;
-      }
-      yield;
-    }
+    return this.getManyAtDepth(ids, options, 0);
   }
 
   public async get<L extends EntityAttrLookup<V>>(
@@ -42,6 +47,32 @@ export class ReadonlyOREntityCollection<
     for await (const result of this.getMany([id], options)) { return result; }
   }
 
+  public async getConflicts(id: Id, attr: string, options?: EntityTypeOptions): Promise<[value: V, txId: Id][]> {
+    if (!this.cipher) {
+      return new ReadonlyORMap(this.state.store(options?.type), id, this.stringify).getConflicts(attr, options);
+    }
+    const conflicts: [value: V, txId: Id][] = [];
+    for await (const [[, , tag, txId], value] of this.state.store(options?.type).entries({
+      ...options, lower: [id, attr], upper: [id, attr], upperOpen: false,
+    })) {
+      conflicts.push([await this.cipher.decrypt(value, attr, tag, options), txId as Id]);
+    }
+    return conflicts;
+  }
+
+  public async getAuthors(id: Id, attr: string, options?: EntityTypeOptions): Promise<[value: V, author?: string][]> {
+    const conflicts = await this.getConflicts(id, attr, options);
+    const results: [value: V, author?: string][] = conflicts.map(([value]) => [value]);
+    if (this.state.authors && conflicts.length) {
+      let i = 0;
+      for await (const author of this.state.authors.getMany(conflicts.map(([, txId]) => txId), options)) {
+        if (author !== void 0) { results[i][1] = author; }
+        ++i;
+      }
+    }
+    return results;
+  }
+
   public async has(id: Id, options?: EntityTypeOptions): Promise<boolean> {
     return (await this.get(id, options)) !== void 0;
   }
@@ -53,17 +84,38 @@ export class ReadonlyOREntityCollection<
   public async * entries<L extends EntityAttrLookup<V>>(
     options: EntityRangeQueryOptions<Id, V, L> = {}
   ): AsyncIterableIterator<[Id, EntityView<V, L>]> {
-    const { type, attr, lower, upper, limit = Infinity, ...rangeOps } = options;
+    const { type, attr, limit = Infinity, after, ...rangeOps } = options;
+    let { lower, upper, lowerOpen, upperOpen } = options;
+    if (after) {
+      const [id] = fromCursor(after, this.parseId);
+      if (!options.reverse && (lower === void 0 || compareMultiKeys(id, lower) >= 0)) {
+        lower = id;
+        lowerOpen = true;
+      } else if (options.reverse && (upper === void 0 || compareMultiKeys(id, upper) <= 0)) {
+        upper = id;
+        upperOpen = true;
+      }
+    }
+
     const store = this.state.store(type);
     let i = 0;
+    let batch: [Id, EntityView<V, L>][] = [];
     for await (const entry of this.collect(store.entries({
       ...rangeOps,
-      lower: lower !== void 0 ? rangeOps?.lowerOpen ? [lower, TERMINAL] : [lower] : void 0,
+      lower: lower !== void 0 ? lowerOpen ? [lower, TERMINAL] : [lower] : void 0,
       upper: upper !== void 0 ? [upper] : void 0,
+      lowerOpen, upperOpen,
     }), attr)) {
       if (i++ >= limit) { break; }
-      yield entry;
+      batch.push(entry);
+      if (batch.length >= this.batchSize) {
+        await this.expandRefs(batch.map(([, view]) => view), options, 0);
+        yield* batch;
+        batch = [];
+      }
     }
+    await this.expandRefs(batch.map(([, view]) => view), options, 0);
+    yield* batch;
   }
 
   public async * keys<L extends EntityAttrLookup<V>>(
@@ -81,26 +133,11 @@ export class ReadonlyOREntityCollection<
   public async * keysByAttr<L extends EntityAttrLookup<V>>(
     options: EntityAttrRangeQueryOptions<V, L> = {}
   ): AsyncIterableIterator<Id> {
-    const { type, attr: _, by = ID_FIELD, lower, upper, limit = Infinity, ...rangeOps } = options;
-    if (by === ID_FIELD) {
+    if ((options.by ?? ID_FIELD) === ID_FIELD) {
       yield* this.keys(options as EntityRangeQueryOptions<Id, V, L>);
       return;
     }
-
-    const store = this.state.store(type);
-    const seenIds = new Set<string>();
-    for await (const [id] of store.keysByAttr({
-      ...rangeOps,
-      lower: lower !== void 0 ? [by, await this.stringify(lower, options)] : [by],
-      upper: upper !== void 0 ? [by, await this.stringify(upper, options)] : [by],
-    })) {
-      if (seenIds.size >= limit) { break; }
-      const idStr = `${id}`;
-      if (!seenIds.has(idStr)) {
-        yield id;
-        seenIds.add(idStr);
-      }
-    }
+    for await (const [id] of this.keysWithAttrKey(options)) { yield id; }
   }
 
   public async * entriesByAttr<L extends EntityAttrLookup<V>>(
@@ -130,6 +167,97 @@ export class ReadonlyOREntityCollection<
     for await (const [, value] of this.entriesByAttr(options)) { yield value; }
   }
 
+  public async page<L extends EntityAttrLookup<V>>(
+    options: EntityAttrRangeQueryOptions<V, L> = {}
+  ): Promise<EntityPage<Id, V, L>> {
+    const entries: [Id, EntityView<V, L>][] = [];
+    let cursorKey: EntityAttrSearchKey<Id> | undefined;
+    let count = 0;
+    if ((options.by ?? ID_FIELD) === ID_FIELD) {
+      for await (const entry of this.entries(options as EntityRangeQueryOptions<Id, V, L>)) {
+        entries.push(entry);
+        cursorKey = [entry[0]];
+        ++count;
+      }
+    } else {
+      const ids: Id[] = [];
+      for await (const [id, key] of this.keysWithAttrKey(options)) {
+        ids.push(id);
+        cursorKey = key;
+        ++count;
+      }
+      for await (const entry of this.getEntriesMany(ids, options)) { entries.push(entry); }
+    }
+
+    return {
+      entries,
+      ...(cursorKey && count >= (options.limit ?? Infinity) ? { cursor: toCursor(cursorKey) } : {}),
+    };
+  }
+
+  public async * search(query: string, options: EntitySearchOptions = {}): AsyncIterableIterator<Id> {
+    const { type, limit = Infinity, ...searchOptions } = options;
+    const store = this.state.store(type);
+    if (!store.search) {
+      throw new TypeError('full-text search not supported');
+    }
+
+    let count = 0;
+    for await (const [id] of this.filterDeleted(store.search(query, searchOptions), ([id]) => id, options)) {
+      if (count >= limit) { break; }
+      yield id;
+      ++count;
+    }
+  }
+
+  public async * query<L extends EntityAttrLookup<V>>(
+    options: EntityQueryOptions<V, L> = {}
+  ): AsyncIterableIterator<[Id, EntityView<V, L>]> {
+    const { type, signal, where = {}, orderBy = ID_FIELD, reverse = false, limit = Infinity, offset = 0 } = options;
+    const filters: [attr: string, ranges: TagRange[]][] = [];
+    for (const [attr, filter] of Object.entries(where)) {
+      if (filter !== void 0) { filters.push([attr, await this.filterRanges(filter, options)]); }
+    }
+
+    let ids: MaybeAsyncIterableIterator<Id>;
+    if (orderBy !== ID_FIELD) { // iterate in attribute order, bounded by the filter on it, and probe all filters
+      const filter = where[orderBy];
+      ids = this.filterMatching(this.keysByAttr({
+        type, signal, by: orderBy, reverse,
+        ...(filter && 'eq' in filter ? { lower: filter.eq, upper: filter.eq, upperOpen: false } : {}),
+        ...(filter && !('eq' in filter) && !('in' in filter) ? filter : {}),
+      }), filters, options);
+    } else if (filters.length) { // find Ids by the most selective filter, and probe the other filters
+      const driver = filters.reduce((best, filter) => selectivity(filter[1]) < selectivity(best[1]) ? filter : best);
+      const matches = await this.findIdsByAttr(driver[0], driver[1], options);
+      ids = this.filterMatching(this.filterDeleted(
+        [...matches.values()].sort((a, b) => compareMultiKeys(a, b) * (reverse ? -1 : 1)).values(), (id) => id, options
+      ), filters.filter((filter) => filter !== driver), options);
+    } else {
+      ids = this.keys({ type, signal, reverse });
+    }
+
+    let skipped = 0;
+    let count = 0;
+    const batch: Id[] = [];
+    for await (const id of ids) {
+      if (count >= limit) { break; }
+      if (skipped < offset) {
+        ++skipped;
+        continue;
+      }
+      batch.push(id);
+      ++count;
+      if (batch.length >= this.batchSize) {
+        yield* this.getEntriesMany(batch, options);
+        batch.length = 0;
+      }
+    }
+    if (batch.length) {
+      yield* this.getEntriesMany(batch, options);
+    }
+  }
+
   public [Symbol.asyncIterator](): AsyncIterableIterator<[Id, EntityView<V>]> {
     return this.entries();
   }
@@ -152,6 +280,232 @@ export class ReadonlyOREntityCollection<
     }
   }
 
+  /** Returns the views of given entities, expanding references at given depth. */
+  protected async * getManyAtDepth<L extends EntityAttrLookup<V>>(
+    ids: Iterable<Id>, options: EntityViewOptions<V, L> | undefined, depth: number
+  ): AsyncIterableIterator<EntityView<V, L> | undefined> {
+    const store = this.state.store(options?.type);
+    let batch: (EntityView<V, L> | undefined)[] = [];
+    outer: for await (const iter of store.findMany([...ids].map(id => [id]), options)) {
+      if (batch.length >= this.batchSize) {
+        yield* await this.expandRefs(batch, options, depth);
+        batch = [];
+      }
+      for await (const [, view] of this.collect(iter, options?.attr)) {
+        batch.push(view);
+        continue outer;
+      }
+      batch.push(void 0);
+    }
+    yield* await this.expandRefs(batch, options, depth);
+  }
+
+  /**
+   * Replaces referenced entity Ids in given views with the views of referenced entities in place.
+   * Entities referenced by the same attribute are fetched in a batch. Ids of missing entities are kept as is.
+   */
+  protected async expandRefs<L extends EntityAttrLookup<V>>(
+    views: (EntityView<V, L> | undefined)[], options: EntityViewOptions<V, L> | undefined, depth: number
+  ): Promise<(EntityView<V, L> | undefined)[]> {
+    if (depth >= this.maxRefDepth) { return views; }
+
+    for (const [attr, lookup] of Object.entries(options?.attr || {})) {
+      if (!isEntityRefLookup(lookup)) { continue; }
+
+      const refViews = (views as (Record<string, unknown> | undefined)[])
+        .filter((view): view is Record<string, unknown> => view?.[attr] !== void 0);
+      if (!refViews.length) { continue; }
+
+      let i = 0;
+      for await (const refView of this.getManyAtDepth(
+        refViews.map((view) => view[attr] as Id),
+        { signal: options?.signal, type: lookup.type ?? options?.type, attr: lookup.ref },
+        depth + 1,
+      )) {
+        if (refView !== void 0) { refViews[i][attr] = refView; }
+        ++i;
+      }
+    }
+
+    return views;
+  }
+
+  /**
+   * Iterates Ids of entities matching given attribute range query,
+   * with the attribute keys that they are first matched by in iteration order.
+   */
+  protected async * keysWithAttrKey<L extends EntityAttrLookup<V>>(
+    options: EntityAttrRangeQueryOptions<V, L>
+  ): AsyncIterableIterator<[Id, EntityAttrKey<Id>]> {
+    const { type, attr: _, by = ID_FIELD, lower, upper, limit = Infinity, after, ...rangeOps } = options;
+    const store = this.state.store(type);
+    const lowerTag = lower !== void 0 ? await this.stringify(lower, options) : void 0;
+    const upperTag = upper !== void 0 ? await this.stringify(upper, options) : void 0;
+    const afterKey = after && fromCursor(after, this.parseId, true) as EntityAttrKey<Id>;
+    let count = 0;
+    for await (const key of this.filterDeleted(firstKeyOfIds(store.keysByAttr({
+      ...rangeOps,
+      lower: lowerTag !== void 0 ? [by, lowerTag] : [by],
+      upper: upperTag !== void 0 ? [by, upperTag] : [by],
+      after: afterKey,
+    })), ([id]) => id, options)) {
+      if (count >= limit) { break; }
+      const [id] = key;
+      if (afterKey && await this.isMatchedBefore(id, afterKey, lowerTag, upperTag, options)) { continue; }
+      yield [id, key];
+      ++count;
+    }
+  }
+
+  /**
+   * Returns if given entity has an attribute key in query range up to given cursor key in iteration order,
+   * i.e. it has been returned in a previous page.
+   */
+  protected async isMatchedBefore<L extends EntityAttrLookup<V>>(
+    id: Id, [, by, afterTag, afterTxId]: EntityAttrKey<Id>, lowerTag: string | undefined, upperTag: string | undefined,
+    options: EntityAttrRangeQueryOptions<V, L>
+  ): Promise<boolean> {
+    const { reverse = false, upperOpen = true } = options;
+    for await (const [, , tag, txId] of this.state.store(options.type).keys({
+      signal: options.signal, lower: [id, by], upper: [id, by], upperOpen: false,
+    })) {
+      const order = compareMultiKeys([tag, txId], [afterTag, afterTxId]);
+      if (reverse ?
+        order >= 0 && (upperTag === void 0 || compareMultiKeys(tag, upperTag) < (upperOpen ? 0 : 1)) :
+        order <= 0 && (lowerTag === void 0 || compareMultiKeys(tag, lowerTag) >= 0)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Returns the ranges of attribute value tags matching given filter. */
+  protected async filterRanges(filter: EntityAttrFilter<V>, options?: AbortOptions): Promise<TagRange[]> {
+    const ranges: TagRange[] = [];
+    if ('eq' in filter) {
+      const tag = await this.stringify(filter.eq, options);
+      ranges.push([tag, tag, false, false]);
+    } else if ('in' in filter) {
+      for (const value of filter.in) {
+        const tag = await this.stringify(value, options);
+        ranges.push([tag, tag, false, false]);
+      }
+    } else {
+      ranges.push([
+        filter.lower !== void 0 ? await this.stringify(filter.lower, options) : void 0,
+        filter.upper !== void 0 ? await this.stringify(filter.upper, options) : void 0,
+        filter.lowerOpen, filter.upperOpen,
+      ]);
+    }
+    return ranges;
+  }
+
+  /** Returns the Ids of entities with given attribute matching given tag ranges. */
+  protected async findIdsByAttr(attr: string, ranges: TagRange[], options?: EntityTypeOptions): Promise<Map<string, Id>> {
+    const ids = new Map<string, Id>();
+    for (const [lower, upper, lowerOpen, upperOpen] of ranges) {
+      for await (const [id, , tag] of this.state.store(options?.type).keysByAttr({
+        signal: options?.signal,
+        lower: lower !== void 0 ? [attr, lower] : [attr],
+        upper: upper !== void 0 ? [attr, upper] : [attr],
+        upperOpen,
+      })) {
+        if (lowerOpen && tag === lower) { continue; }
+        ids.set(`${id}`, id);
+      }
+    }
+    return ids;
+  }
+
+  /** Filters given entity Ids by given attribute tag ranges, probing their attribute values in batches. */
+  protected async * filterMatching(
+    ids: MaybeAsyncIterableIterator<Id>, filters: [attr: string, ranges: TagRange[]][], options?: EntityTypeOptions
+  ): AsyncIterableIterator<Id> {
+    if (!filters.length) {
+      yield* ids;
+      return;
+    }
+    let batch: Id[] = [];
+    for await (const id of ids) {
+      batch.push(id);
+      if (batch.length >= this.batchSize) {
+        yield* await this.withMatching(batch, filters, options);
+        batch = [];
+      }
+    }
+    yield* await this.withMatching(batch, filters, options);
+  }
+
+  /** Returns given entity Ids that match all given filters, in a single query for their attribute values. */
+  protected async withMatching(
+    ids: Id[], filters: [attr: string, ranges: TagRange[]][], options?: EntityTypeOptions
+  ): Promise<Id[]> {
+    if (!ids.length) { return ids; }
+    const results: Id[] = [];
+    let i = 0;
+    let matched = true;
+    for await (const iter of this.state.store(options?.type).findMany(
+      ids.flatMap((id) => filters.map(([attr]): EntityAttrSearchKey<Id> => [id, attr])), options
+    )) {
+      const ranges = filters[i % filters.length][1];
+      let found = false;
+      for await (const [[, , tag]] of iter) {
+        if (ranges.some((range) => inTagRange(tag, range))) {
+          found = true;
+          break;
+        }
+      }
+      matched &&= found;
+      if (++i % filters.length === 0) {
+        if (matched) { results.push(ids[i / filters.length - 1]); }
+        matched = true;
+      }
+    }
+    return results;
+  }
+
+  /** Filters out entries of deleted entities, checking their tombstones in batches. */
+  protected async * filterDeleted<T>(
+    entries: MaybeAsyncIterableIterator<T>, getId: (entry: T) => Id, options?: EntityTypeOptions
+  ): AsyncIterableIterator<T> {
+    let batch: T[] = [];
+    for await (const entry of entries) {
+      batch.push(entry);
+      if (batch.length >= this.batchSize) {
+        yield* await this.withoutDeleted(batch, getId, options);
+        batch = [];
+      }
+    }
+    yield* await this.withoutDeleted(batch, getId, options);
+  }
+
+  /** Returns given entries without those of deleted entities, in a single query for their tombstones. */
+  protected async withoutDeleted<T>(
+    entries: T[], getId: (entry: T) => Id, options?: EntityTypeOptions
+  ): Promise<T[]> {
+    if (!entries.length) { return entries; }
+    const results: T[] = [];
+    let i = 0;
+    for await (const iter of this.state.store(options?.type).findMany(
+      entries.map((entry) => [getId(entry), ENTITY_TOMBSTONE_ATTR]), options
+    )) {
+      let deleted = false;
+      for await (const _ of iter) {
+        deleted = true;
+        break;
+      }
+      if (!deleted) { results.push(entries[i]); }
+      ++i;
+    }
+    return results;
+  }
+
+  /** Decrypts given value of given attribute and tag if a cipher is specified. */
+  protected async decrypt(value: V, attr: string, tag: string, options?: AbortOptions): Promise<V> {
+    return this.cipher ? this.cipher.decrypt(value, attr, tag, options) : value;
+  }
+
   protected async * collect<L extends EntityAttrLookup<V>>(
     iter: MaybeAsyncIterableIterator<[EntityAttrKey<Id>, V]>, attrs?: L
   ): AsyncIterableIterator<[Id, EntityView<V, L>]> {
@@ -159,26 +513,94 @@ export class ReadonlyOREntityCollection<
     let lastId: Id | undefined;
     let results: Record<string, unknown> = {};
     let i = 0;
+    let deleted = false;
 
-    for await (const [[id, attr, tag], value] of iter) {
+    for await (const [[id, attr, tag], encryptedValue] of iter) {
       const idStr = `${id}`;
       if (lastIdStr !== idStr) {
-        if (i) { yield [lastId as Id, results as EntityView<V, L>]; }
+        if (i && !deleted) { yield [lastId as Id, results as EntityView<V, L>]; }
         lastIdStr = idStr;
         lastId = id;
         results = {};
         i = 0;
+        deleted = false;
       }
 
-      if (attrs?.[attr] instanceof Function) {
+      if (attr === ENTITY_TOMBSTONE_ATTR) { // skip deleted entity
+        deleted = true;
+      } else if (deleted || attr === ENTITY_KEY_ATTR) {
+        continue;
+      } else if (attrs?.[attr] instanceof Function) {
+        const value = await this.decrypt(encryptedValue, attr, tag);
         results[attr] = (attrs[attr] as EntityAttrReducer<V>)(results[attr], value, attr, tag);
         ++i;
       } else if (results[attr] === void 0 && (!attrs || !!attrs[attr])) {
-        results[attr] = value;
+        results[attr] = await this.decrypt(encryptedValue, attr, tag);
         ++i;
       }
     }
 
-    if (i) { yield [lastId as Id, results as EntityView<V, L>]; }
+    if (i && !deleted) { yield [lastId as Id, results as EntityView<V, L>]; }
+  }
+}
+
+/** Encodes given store key into an opaque cursor string. */
+function toCursor<Id extends ToString>([id, ...rest]: EntityAttrSearchKey<Id>): EntityCursor {
+  const [attr, tag, txId] = rest;
+  const key = rest.length ? [`${id}`, attr, tag, `${txId}`] : [`${id}`];
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') as EntityCursor;
+}
+
+/** Decodes given cursor string into a store key, or an attribute key if `attrKey` is true. */
+function fromCursor<Id>(cursor: EntityCursor, parseId: (id: string) => Id, attrKey = false): EntityAttrSearchKey<Id> {
+  let key: unknown;
+  try {
+    const text = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    key = JSON.parse(new TextDecoder().decode(Uint8Array.from(text, (char) => char.charCodeAt(0))));
+  } catch (error) {
+    throw new TypeError('invalid cursor', { cause: error });
+  }
+  if (
+    !Array.isArray(key) || key.length !== (attrKey ? 4 : 1) || !key.every((part) => typeof part === 'string')
+  ) {
+    throw new TypeError('invalid cursor');
+  }
+
+  try {
+    const [id, attr, tag, txId] = key as string[];
+    return attrKey ? [parseId(id), attr, tag, parseId(txId)] : [parseId(id)];
+  } catch (error) {
+    throw new TypeError('invalid cursor', { cause: error });
+  }
+}
+
+/** Yields the first of given attribute keys of each entity. */
+async function* firstKeyOfIds<Id>(
+  keys: MaybeAsyncIterableIterator<EntityAttrKey<Id>>
+): AsyncIterableIterator<EntityAttrKey<Id>> {
+  const seenIds = new Set<string>();
+  for await (const key of keys) {
+    const idStr = `${key[0]}`;
+    if (seenIds.has(idStr)) { continue; }
+    seenIds.add(idStr);
+    yield key;
   }
 }
+
+/** Returns if given tag is within given range. Upper bounds are open by default, as in range queries. */
+function inTagRange(tag: string, [lower, upper, lowerOpen = false, upperOpen = true]: TagRange): boolean {
+  return (lower === void 0 || (lowerOpen ? tag > lower : tag >= lower)) &&
+    (upper === void 0 || (upperOpen ? tag < upper : tag <= upper));
+}
+
+/** Returns the estimated selectivity of given tag ranges, as the number of exact matches or Infinity for a range. */
+function selectivity(ranges: TagRange[]): number {
+  const isExact = ([lower, upper, lowerOpen, upperOpen]: TagRange) =>
+    lower !== void 0 && lower === upper && !lowerOpen && upperOpen === false;
+  return ranges.every(isExact) ? ranges.length : Infinity;
+}
+
+function isEntityRefLookup<V>(lookup: EntityAttrLookup<V>[string]): lookup is EntityRefLookup<V> {
+  return typeof lookup === 'object' && lookup !== null && 'ref' in lookup;
+}
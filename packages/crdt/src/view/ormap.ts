@@ -4,6 +4,8 @@ import {
 import { AbortOptions, ContentId, MaybePromise } from '@mithic/commons';
 import { ReadonlyLSeq } from './lseq.ts';
 import { ReadonlyORSet } from './orset.ts';
+import { ReadonlyText } from './text.ts';
+import { ReadonlyTree } from './tree.ts';
 import { defaultStringify } from '../defaults.ts';
 
 /** Readonly observed-removed map. */
@@ -28,6 +30,15 @@ export class ReadonlyORMap<V = unknown, Id = ContentId>
     return new ReadonlyORSet(this.store, this.entityId, key, this.stringify);
   }
 
+  public getText(key: string): ReadonlyText<V, Id> {
+    return new ReadonlyText(this.store, this.entityId, key);
+  }
+
+  /** Returns the tree rooted at this entity, of entities linked by given parent attribute. */
+  public getTree(key: string): ReadonlyTree<V, Id> {
+    return new ReadonlyTree(this.store, this.entityId, key);
+  }
+
   public async get(key: string, options?: AbortOptions): Promise<V | undefined> {
     for await (const [, value] of this.store.entries({
       ...options,
@@ -40,6 +51,23 @@ export class ReadonlyORMap<V = unknown, Id = ContentId>
     }
   }
 
+  /**
+   * Returns all concurrent values of given key with their originating transaction Ids.
+   * The key is in conflict if more than 1 value is returned.
+   */
+  public async getConflicts(key: string, options?: AbortOptions): Promise<[value: V, txId: Id][]> {
+    const results: [value: V, txId: Id][] = [];
+    for await (const [[, , , txId], value] of this.store.entries({
+      ...options,
+      lower: [this.entityId, key],
+      upper: [this.entityId, key],
+      upperOpen: false,
+    })) {
+      results.push([value, txId as Id]);
+    }
+    return results;
+  }
+
   public async has(key: string, options?: AbortOptions): Promise<boolean> {
     return (await this.get(key, options)) !== void 0;
   }
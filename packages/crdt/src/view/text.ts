@@ -0,0 +1,87 @@
+import { ReadonlyTripleStore } from '@mithic/collections';
+import { AbortOptions, ContentId } from '@mithic/commons';
+import { Marks, markAttr, markSpans, textChars } from '../utils/index.ts';
+
+/** Readonly collaborative text. */
+export class ReadonlyText<V = unknown, Id = ContentId> implements AsyncIterable<[pos: string, char: string]> {
+  public constructor(
+    /** The underlying store. */
+    protected readonly store: ReadonlyTripleStore<Id, V>,
+    /** The text entity ID. */
+    public readonly entityId: Id,
+    /** Attribute name that holds this text. */
+    public readonly attr: string,
+  ) { }
+
+  /** Returns the text content. */
+  public async text(options?: AbortOptions): Promise<string> {
+    let result = '';
+    for await (const char of this.values(options)) { result += char; }
+    return result;
+  }
+
+  /**
+   * Returns the cursor-stable position of the character at given offset, or `''` if offset is at or beyond the end.
+   * A position stays attached to its character under concurrent edits.
+   */
+  public async posAt(offset: number, options?: AbortOptions): Promise<string> {
+    let i = 0;
+    for await (const pos of this.keys(options)) {
+      if (i++ >= offset) { return pos; }
+    }
+    return '';
+  }
+
+  /** Returns the current offset of given position, i.e. the number of characters before it. */
+  public async offsetOf(pos: string, options?: AbortOptions): Promise<number> {
+    let i = 0;
+    for await (const key of this.keys(options)) {
+      if (pos !== '' && key >= pos) { break; }
+      ++i;
+    }
+    return i;
+  }
+
+  /** Iterates visible characters with their positions. */
+  public async * entries(options?: AbortOptions): AsyncIterableIterator<[pos: string, char: string]> {
+    for await (const [pos, char, deleted] of textChars(this.store.entries({
+      ...options,
+      lower: [this.entityId, this.attr],
+      upper: [this.entityId, this.attr],
+      upperOpen: false,
+    }))) {
+      if (!deleted) { yield [pos, char]; }
+    }
+  }
+
+  /** Iterates positions of visible characters. */
+  public async * keys(options?: AbortOptions): AsyncIterableIterator<string> {
+    for await (const [key] of this.entries(options)) { yield key; }
+  }
+
+  /** Iterates visible characters. */
+  public async * values(options?: AbortOptions): AsyncIterableIterator<string> {
+    for await (const [, value] of this.entries(options)) { yield value; }
+  }
+
+  /** Iterates spans of text with the same formatting marks. */
+  public async * spans(options?: AbortOptions): AsyncIterableIterator<[text: string, marks: Marks]> {
+    const attr = markAttr(this.attr);
+    for await (const [chars, marks] of markSpans(this.entries(options), this.store.entries({
+      ...options,
+      lower: [this.entityId, attr],
+      upper: [this.entityId, attr],
+      upperOpen: false,
+    }))) {
+      yield [chars.join(''), marks];
+    }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<[pos: string, char: string]> {
+    return this.entries();
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return ReadonlyText.name;
+  }
+}
@@ -0,0 +1,122 @@
+import { ReadonlyTripleStore } from '@mithic/collections';
+import { AbortOptions, ContentId } from '@mithic/commons';
+import { ENTITY_TOMBSTONE_ATTR } from '../store.ts';
+import { treeAncestorEntries, treeParents } from '../utils/index.ts';
+
+/**
+ * Readonly tree of entities, where each entity holds the Id of its parent entity in given attribute.
+ * Concurrent moves are applied in order of event time, ignoring those that would introduce a cycle.
+ * Deleted entities and their descendants are excluded from the tree.
+ */
+export class ReadonlyTree<V = unknown, Id = ContentId> implements AsyncIterable<Id> {
+  public constructor(
+    /** The underlying store. */
+    protected readonly store: ReadonlyTripleStore<Id, V>,
+    /** The tree root entity ID. */
+    public readonly entityId: Id,
+    /** Attribute name that holds the parent of each entity. */
+    public readonly attr: string,
+  ) { }
+
+  /** Returns the parent of given entity, or undefined if it has none. */
+  public async parent(id: Id, options?: AbortOptions): Promise<Id | undefined> {
+    return (await this.parents([id], options)).get(`${id}`)?.[1];
+  }
+
+  /** Iterates child entities of given entity, or of the tree root by default. */
+  public async * children(id: Id = this.entityId, options?: AbortOptions): AsyncIterableIterator<Id> {
+    yield* this.childrenMap(await this.parents(void 0, options)).get(`${id}`) || [];
+  }
+
+  /** Iterates ancestors of given entity, starting from its parent. */
+  public async * ancestors(id: Id, options?: AbortOptions): AsyncIterableIterator<Id> {
+    const parents = await this.parents([id], options);
+    for (let entry = parents.get(`${id}`); entry; entry = parents.get(`${entry[1]}`)) {
+      yield entry[1];
+    }
+  }
+
+  /** Iterates descendants of given entity, or of the tree root by default, in depth-first pre-order. */
+  public async * subtree(id: Id = this.entityId, options?: AbortOptions): AsyncIterableIterator<Id> {
+    const children = this.childrenMap(await this.parents(void 0, options));
+    const stack = [...(children.get(`${id}`) || [])].reverse();
+    for (let node = stack.pop(); node !== void 0; node = stack.pop()) {
+      yield node;
+      for (const child of [...(children.get(`${node}`) || [])].reverse()) {
+        stack.push(child);
+      }
+    }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<Id> {
+    return this.subtree();
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return ReadonlyTree.name;
+  }
+
+  /**
+   * Resolves the parent of given entities and their ancestors by replaying parent pointer moves in ascending order of time.
+   * Children are not indexed by parent, so resolving them scans the parent pointers of every entity by default.
+   */
+  protected async parents(ids?: Id[], options?: AbortOptions): Promise<Map<string, [node: Id, parent: Id]>> {
+    const parents = await treeParents(ids ?
+      (await treeAncestorEntries(this.store, ids, this.attr, void 0, void 0, options)).values() :
+      // tags are encoded event times in descending order, so iterate in reverse for ascending order of time
+      this.store.entriesByAttr({
+        ...options,
+        lower: [this.attr],
+        upper: [this.attr],
+        upperOpen: false,
+        reverse: true,
+      }));
+    return this.withoutDeleted(parents, options);
+  }
+
+  /** Removes deleted entities and links to them from given parents, in a single query for their tombstones. */
+  private async withoutDeleted(
+    parents: Map<string, [node: Id, parent: Id]>, options?: AbortOptions
+  ): Promise<Map<string, [node: Id, parent: Id]>> {
+    const ids = new Map<string, Id>();
+    for (const [node, parent] of parents.values()) {
+      ids.set(`${node}`, node);
+      ids.set(`${parent}`, parent);
+    }
+    if (!ids.size) { return parents; }
+    const deleted = new Set<string>();
+    const keys = [...ids.keys()];
+    let i = 0;
+    for await (const iter of this.store.findMany([...ids.values()].map((id) => [id, ENTITY_TOMBSTONE_ATTR]), options)) {
+      const key = keys[i++];
+      for await (const _ of iter) {
+        deleted.add(key);
+        break;
+      }
+    }
+    if (!deleted.size) { return parents; }
+    for (const [key, [, parent]] of parents) {
+      if (deleted.has(key) || deleted.has(`${parent}`)) {
+        parents.delete(key);
+      }
+    }
+    return parents;
+  }
+
+  /** Returns a map of entity key to its children, sorted by key. */
+  private childrenMap(parents: Map<string, [node: Id, parent: Id]>): Map<string, Id[]> {
+    const children = new Map<string, Id[]>();
+    for (const [node, parent] of parents.values()) {
+      const parentKey = `${parent}`;
+      let list = children.get(parentKey);
+      if (!list) {
+        children.set(parentKey, list = []);
+      }
+      list.push(node);
+    }
+    for (const list of children.values()) {
+      list.sort((a, b) => `${a}` < `${b}` ? -1 : `${a}` > `${b}` ? 1 : 0);
+    }
+    return children;
+  }
+}